@@ -1,14 +1,43 @@
+import {
+  MIN_PROTOCOL_VERSION,
+  negotiateFeatures,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION,
+} from '@dynamodb-reactive/core';
+
+import { ReactiveClientError } from './errors.js';
 import { applyPatches } from './patcher.js';
 import type {
+  ClientHelloMessage,
   ConnectionState,
-  JsonPatch,
+  ErrorMessage,
+  PatchMessage,
+  ProtocolFeature,
   ReactiveClientConfig,
+  ServerHelloMessage,
+  ServerInfo,
   ServerMessage,
   Subscription,
   SubscriptionOptions,
 } from './types.js';
 import { WebSocketManager } from './websocket.js';
 
+/**
+ * Protocol features this client supports
+ */
+const CLIENT_FEATURES: readonly ProtocolFeature[] = [
+  'batching',
+  'sequenceNumbers',
+];
+
+/**
+ * Features offered when compression is enabled and supported
+ */
+const COMPRESSION_FEATURES: readonly ProtocolFeature[] = [
+  'compression',
+  'binaryFrames',
+];
+
 /**
  * Generate a unique subscription ID
  */
@@ -26,6 +55,10 @@ interface SubscriptionState<TData> {
   data: TData | undefined;
   loading: boolean;
   error: Error | undefined;
+  /** Whether a snapshot has arrived, so patches can be applied */
+  synced: boolean;
+  /** Version of data, from the server's snapshots and patches */
+  version: number | undefined;
   listeners: Set<() => void>;
   options: SubscriptionOptions<unknown>;
 }
@@ -42,13 +75,21 @@ interface PendingCall {
  * Reactive client for type-safe subscriptions
  */
 export class ReactiveClient {
+  private config: ReactiveClientConfig;
   private wsManager: WebSocketManager;
   private subscriptions = new Map<string, SubscriptionState<unknown>>();
   private pendingCalls = new Map<string, PendingCall>();
   private connectionState: ConnectionState = 'disconnected';
   private stateListeners = new Set<(state: ConnectionState) => void>();
+  private serverInfo: ServerInfo | undefined;
+  private features: ProtocolFeature[];
 
   constructor(config: ReactiveClientConfig) {
+    this.config = config;
+    this.features =
+      config.compression && typeof DecompressionStream !== 'undefined'
+        ? [...CLIENT_FEATURES, ...COMPRESSION_FEATURES]
+        : [...CLIENT_FEATURES];
     this.wsManager = new WebSocketManager(config);
 
     // Handle incoming messages
@@ -57,9 +98,13 @@ export class ReactiveClient {
     // Handle connection state changes
     this.wsManager.onStateChange((state) => {
       this.connectionState = state;
+      this.serverInfo = undefined;
       this.notifyStateListeners();
 
       if (state === 'connected') {
+        // The hello goes first. Requests don't wait for the reply, so
+        // servers that predate the handshake keep working without features.
+        this.sendHello();
         this.resubscribeAll();
       }
     });
@@ -86,6 +131,14 @@ export class ReactiveClient {
     return this.connectionState;
   }
 
+  /**
+   * Get what the server agreed to in the hello handshake, once it replied.
+   * Undefined while connecting, or if the server doesn't support it.
+   */
+  getServerInfo(): ServerInfo | undefined {
+    return this.serverInfo;
+  }
+
   /**
    * Subscribe to connection state changes
    */
@@ -109,9 +162,11 @@ export class ReactiveClient {
       id,
       path,
       input: options.input,
-      data: undefined,
-      loading: true,
+      data: options.initialData as TData | undefined,
+      loading: options.initialData === undefined,
       error: undefined,
+      synced: false,
+      version: undefined,
       listeners: new Set(),
       options,
     };
@@ -211,57 +266,176 @@ export class ReactiveClient {
    */
   private handleMessage(message: ServerMessage): void {
     switch (message.type) {
+      case 'hello':
+        this.handleHello(message);
+        break;
+
       case 'snapshot':
-        this.handleSnapshot(message.subscriptionId, message.data);
+        this.handleSnapshot(
+          message.subscriptionId,
+          message.data,
+          message.version,
+        );
         break;
 
       case 'patch':
-        this.handlePatch(message.subscriptionId, message.patches);
+        this.handlePatch(message);
         break;
 
       case 'result':
         this.handleResult(message.callId, message.data);
         break;
 
+      case 'unsubscribed':
+        // State was removed when unsubscribing
+        break;
+
       case 'error':
         this.handleError(message);
         break;
+
+      case 'chunk':
+        // WebSocketManager reassembles chunks before dispatching them
+        break;
+    }
+  }
+
+  /**
+   * Send the hello handshake with the protocol versions and features
+   * this client supports
+   */
+  private sendHello(): void {
+    const hello: ClientHelloMessage = {
+      type: 'hello',
+      protocolVersion: PROTOCOL_VERSION,
+      minProtocolVersion: MIN_PROTOCOL_VERSION,
+      features: this.features,
+    };
+    this.wsManager.send(hello);
+  }
+
+  /**
+   * Handle the server's hello. On a version mismatch, fail every
+   * subscription and call with a clear error and stay disconnected,
+   * since reconnecting would not help.
+   */
+  private handleHello(message: ServerHelloMessage): void {
+    const protocolVersion = negotiateProtocolVersion(
+      {
+        protocolVersion: PROTOCOL_VERSION,
+        minProtocolVersion: MIN_PROTOCOL_VERSION,
+      },
+      message,
+    );
+
+    if (protocolVersion === null) {
+      const error = new ReactiveClientError({
+        type: 'error',
+        code: 'BAD_REQUEST',
+        message: `Incompatible protocol version: client supports ${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}, server supports ${message.minProtocolVersion}-${message.protocolVersion}`,
+      });
+      this.wsManager.disconnect();
+      this.failAll(error);
+      this.config.onError?.(error);
+      return;
+    }
+
+    this.serverInfo = {
+      protocolVersion,
+      features: negotiateFeatures(this.features, message.features),
+      limits: message.limits,
+    };
+  }
+
+  /**
+   * Fail every subscription and pending call with an error
+   */
+  private failAll(error: Error): void {
+    for (const [id, state] of this.subscriptions) {
+      state.error = error;
+      state.loading = false;
+      this.notifySubscriptionListeners(id);
+      state.options.onError?.(error);
+    }
+
+    for (const pending of this.pendingCalls.values()) {
+      pending.reject(error);
     }
+    this.pendingCalls.clear();
   }
 
   /**
    * Handle a snapshot message
    */
-  private handleSnapshot(subscriptionId: string, data: unknown): void {
+  private handleSnapshot(
+    subscriptionId: string,
+    data: unknown,
+    version: number | undefined,
+  ): void {
     const state = this.subscriptions.get(subscriptionId);
     if (!state) return;
 
     state.data = data;
     state.loading = false;
     state.error = undefined;
+    state.synced = true;
+    state.version = version;
 
     this.notifySubscriptionListeners(subscriptionId);
     state.options.onData?.(data);
   }
 
   /**
-   * Handle a patch message
+   * Handle a patch message. Versioned patches are only applied to the
+   * version they were computed from: older ones are dropped, and a gap
+   * means a patch was lost, so a fresh snapshot is requested.
    */
-  private handlePatch(subscriptionId: string, patches: JsonPatch[]): void {
+  private handlePatch(message: PatchMessage): void {
+    const { subscriptionId, fromVersion, toVersion } = message;
     const state = this.subscriptions.get(subscriptionId);
-    if (!state || state.data === undefined) return;
+    // Patches are relative to the snapshot, not to any initial data
+    if (!state || !state.synced) return;
+
+    if (
+      fromVersion !== undefined &&
+      toVersion !== undefined &&
+      state.version !== undefined
+    ) {
+      if (toVersion <= state.version) return;
+      if (fromVersion !== state.version) {
+        this.resync(subscriptionId);
+        return;
+      }
+    }
 
     try {
-      state.data = applyPatches(state.data, patches);
+      state.data = applyPatches(state.data, message.patches);
+      state.version = toVersion;
       this.notifySubscriptionListeners(subscriptionId);
       state.options.onData?.(state.data);
-    } catch (error) {
-      state.error = error instanceof Error ? error : new Error(String(error));
-      this.notifySubscriptionListeners(subscriptionId);
-      state.options.onError?.(state.error);
+    } catch {
+      // The data no longer matches the server's; start over from a snapshot
+      this.resync(subscriptionId);
     }
   }
 
+  /**
+   * Request a fresh snapshot, ignoring patches until it arrives.
+   * Unlike refetch, the current data stays visible meanwhile.
+   */
+  private resync(id: string): void {
+    const state = this.subscriptions.get(id);
+    if (!state) return;
+
+    state.synced = false;
+    this.wsManager.send({
+      type: 'subscribe',
+      subscriptionId: id,
+      path: state.path,
+      input: state.input,
+    });
+  }
+
   /**
    * Handle a result message
    */
@@ -276,12 +450,8 @@ export class ReactiveClient {
   /**
    * Handle an error message
    */
-  private handleError(message: {
-    message: string;
-    subscriptionId?: string;
-    callId?: string;
-  }): void {
-    const error = new Error(message.message);
+  private handleError(message: ErrorMessage): void {
+    const error = new ReactiveClientError(message);
 
     if (message.subscriptionId) {
       const state = this.subscriptions.get(message.subscriptionId);
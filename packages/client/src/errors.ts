@@ -0,0 +1,41 @@
+import type {
+  ErrorMessage,
+  ReactiveErrorCode,
+  ReactiveErrorIssue,
+} from './types.js';
+
+/**
+ * Error reported by the server for a subscription or call.
+ * Branch on `code` rather than the message.
+ *
+ * @example
+ * ```ts
+ * if (error instanceof ReactiveClientError && error.code === 'UNAUTHORIZED') {
+ *   redirectToLogin();
+ * }
+ * ```
+ */
+export class ReactiveClientError extends Error {
+  readonly code: ReactiveErrorCode;
+  readonly issues?: ReactiveErrorIssue[];
+
+  constructor(message: ErrorMessage) {
+    super(message.message);
+    this.name = 'ReactiveClientError';
+    this.code = message.code;
+    this.issues = message.issues;
+  }
+}
+
+/**
+ * Check whether an error is a server error with the given code
+ */
+export function isReactiveError(
+  error: unknown,
+  code?: ReactiveErrorCode,
+): error is ReactiveClientError {
+  return (
+    error instanceof ReactiveClientError &&
+    (code === undefined || error.code === code)
+  );
+}
@@ -8,26 +8,39 @@ export {
 // WebSocket manager
 export { WebSocketManager } from './websocket.js';
 
+// Errors
+export { isReactiveError, ReactiveClientError } from './errors.js';
+
 // Patcher utilities
 export { applyPatches } from './patcher.js';
 
 // Type exports
 export type {
   CallMessage,
+  ChunkMessage,
+  ClientHelloMessage,
   ClientMessage,
   ConnectionState,
+  DehydratedState,
   ErrorMessage,
   InferInput,
   InferOutput,
   JsonPatch,
   PatchMessage,
+  ProtocolFeature,
   ReactiveClientConfig,
+  ReactiveErrorCode,
+  ReactiveErrorIssue,
   ResultMessage,
+  ServerHelloMessage,
+  ServerInfo,
+  ServerLimits,
   ServerMessage,
   SnapshotMessage,
   SubscribeMessage,
   Subscription,
   SubscriptionOptions,
+  UnsubscribedMessage,
   UnsubscribeMessage,
 } from './types.js';
 
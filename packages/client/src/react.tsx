@@ -4,6 +4,7 @@ import {
   type ReactNode,
   useContext,
   useEffect,
+  useMemo,
   useRef,
   useState,
   useSyncExternalStore,
@@ -12,6 +13,7 @@ import {
 import { ReactiveClient } from './client.js';
 import type {
   ConnectionState,
+  DehydratedState,
   ReactiveClientConfig,
   Subscription,
   SubscriptionOptions,
@@ -22,20 +24,37 @@ import type {
  */
 const ReactiveClientContext = createContext<ReactiveClient | null>(null);
 
+/**
+ * Context for data prefetched on the server, keyed by subscription
+ */
+const HydrationContext = createContext<Map<string, unknown>>(new Map());
+
+/**
+ * Key a subscription by its path and input
+ */
+function getSubscriptionKey(path: string, input: unknown): string {
+  return JSON.stringify([path, input ?? null]);
+}
+
 /**
  * Provider component for the reactive client
  *
  * If no config.url or client is provided, WebSocket features are disabled
  * and children are rendered without the reactive context.
+ *
+ * Pass the dehydrated state from createServerHelpers to render prefetched
+ * subscriptions immediately, on the server and during hydration.
  */
 export function ReactiveClientProvider({
   children,
   config,
   client: externalClient,
+  dehydratedState,
 }: {
   children: ReactNode;
   config?: ReactiveClientConfig;
   client?: ReactiveClient;
+  dehydratedState?: DehydratedState;
 }) {
   // Extract URL for stable dependency
   const url = config?.url;
@@ -80,11 +99,24 @@ export function ReactiveClientProvider({
     }
   }, [hasUrl]);
 
+  const hydration = useMemo(
+    () =>
+      new Map(
+        (dehydratedState?.subscriptions ?? []).map((s) => [
+          getSubscriptionKey(s.path, s.input),
+          s.data,
+        ]),
+      ),
+    [dehydratedState],
+  );
+
   // Always render with context provider - hooks will handle null client
   return (
-    <ReactiveClientContext.Provider value={client}>
-      {children}
-    </ReactiveClientContext.Provider>
+    <HydrationContext.Provider value={hydration}>
+      <ReactiveClientContext.Provider value={client}>
+        {children}
+      </ReactiveClientContext.Provider>
+    </HydrationContext.Provider>
   );
 }
 
@@ -141,19 +173,30 @@ export function useSubscription<TData>(
   refetch: () => Promise<void>;
 } {
   const client = useReactiveClient();
+  const hydration = useContext(HydrationContext);
+  // Prefetched data only seeds a subscription when it is created, so the
+  // provider rerendering with new hydration must not re-subscribe
+  const hydrationRef = useRef(hydration);
+  hydrationRef.current = hydration;
   const subscriptionRef = useRef<Subscription<TData> | null>(null);
+
+  // Serialize options for dependency comparison
+  const inputKey = JSON.stringify(options.input);
+  // Prefetched data renders immediately and is replaced by the first snapshot
+  const hydratedData = hydration.get(
+    getSubscriptionKey(path, inputKey ? JSON.parse(inputKey) : undefined),
+  ) as TData | undefined;
+
   const [state, setState] = useState<{
     data: TData | undefined;
     loading: boolean;
     error: Error | undefined;
   }>({
-    data: undefined,
-    loading: !client ? false : true,
+    data: hydratedData,
+    loading: !client ? false : hydratedData === undefined,
     error: undefined,
   });
 
-  // Serialize options for dependency comparison
-  const inputKey = JSON.stringify(options.input);
   // Store callbacks in refs to avoid re-subscribing when they change
   const onDataRef = useRef(options.onData);
   const onErrorRef = useRef(options.onError);
@@ -168,6 +211,7 @@ export function useSubscription<TData>(
 
     const subscription = client.subscribe<TData>(path, {
       input,
+      initialData: hydrationRef.current.get(getSubscriptionKey(path, input)),
       onData: (data) => {
         setState((prev) => ({
           ...prev,
@@ -1,70 +1,57 @@
+import type {
+  ErrorCode,
+  ErrorIssue,
+  ProtocolFeature,
+  ServerLimits,
+} from '@dynamodb-reactive/core';
+
 /**
- * JSON Patch operation (RFC 6902)
+ * Wire protocol messages, shared with the server
  */
-export interface JsonPatch {
-  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
-  path: string;
-  value?: unknown;
-  from?: string;
-}
+export type {
+  CallMessage,
+  ChunkMessage,
+  ClientHelloMessage,
+  ClientMessage,
+  ErrorMessage,
+  JsonPatch,
+  PatchMessage,
+  ProtocolFeature,
+  ResultMessage,
+  ServerHelloMessage,
+  ServerLimits,
+  ServerMessage,
+  SnapshotMessage,
+  SubscribeMessage,
+  UnsubscribedMessage,
+  UnsubscribeMessage,
+} from '@dynamodb-reactive/core';
 
 /**
- * Messages sent from client to server
+ * Error codes sent by the server
  */
-export interface SubscribeMessage {
-  type: 'subscribe';
-  subscriptionId: string;
-  path: string;
-  input: unknown;
-}
-
-export interface UnsubscribeMessage {
-  type: 'unsubscribe';
-  subscriptionId: string;
-}
-
-export interface CallMessage {
-  type: 'call';
-  callId: string;
-  path: string;
-  input: unknown;
-}
-
-export type ClientMessage = SubscribeMessage | UnsubscribeMessage | CallMessage;
+export type ReactiveErrorCode = ErrorCode;
 
 /**
- * Messages sent from server to client
+ * A single input validation failure
  */
-export interface SnapshotMessage {
-  type: 'snapshot';
-  subscriptionId: string;
-  data: unknown;
-}
+export type ReactiveErrorIssue = ErrorIssue;
 
-export interface PatchMessage {
-  type: 'patch';
-  subscriptionId: string;
-  patches: JsonPatch[];
-}
-
-export interface ResultMessage {
-  type: 'result';
-  callId: string;
-  data: unknown;
-}
-
-export interface ErrorMessage {
-  type: 'error';
-  message: string;
-  subscriptionId?: string;
-  callId?: string;
+/**
+ * What the server agreed to in the hello handshake
+ */
+export interface ServerInfo {
+  /** Protocol version both ends speak */
+  protocolVersion: number;
+  /** Features both ends support */
+  features: ProtocolFeature[];
+  limits: ServerLimits;
 }
 
-export type ServerMessage =
-  | SnapshotMessage
-  | PatchMessage
-  | ResultMessage
-  | ErrorMessage;
+/**
+ * Subscription results prefetched on the server with createServerHelpers
+ */
+export type { DehydratedState } from '@dynamodb-reactive/core';
 
 /**
  * Client configuration
@@ -98,6 +85,13 @@ export interface ReactiveClientConfig {
    */
   maxReconnectAttempts?: number;
 
+  /**
+   * Ask the server to compress large messages. Only offered where the
+   * browser supports DecompressionStream.
+   * @default false
+   */
+  compression?: boolean;
+
   /**
    * Callback when connected
    */
@@ -123,6 +117,12 @@ export interface SubscriptionOptions<TInput> {
    */
   input?: TInput;
 
+  /**
+   * Data to show until the first snapshot arrives, e.g. from server
+   * rendering. The subscription starts out not loading when set.
+   */
+  initialData?: unknown;
+
   /**
    * Whether to automatically resubscribe on reconnect
    * @default true
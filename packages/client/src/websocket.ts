@@ -1,8 +1,12 @@
 /* eslint-disable no-console */
+import { ServerMessageSchema } from '@dynamodb-reactive/core';
+
 import type {
+  ChunkMessage,
   ClientMessage,
   ConnectionState,
   ReactiveClientConfig,
+  ServerHelloMessage,
   ServerMessage,
 } from './types.js';
 
@@ -22,6 +26,12 @@ export class WebSocketManager {
   private reconnectAttempts = 0;
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private messageQueue: ClientMessage[] = [];
+  /** Parts of chunked messages received so far, by chunkId */
+  private chunks = new Map<string, string[]>();
+  /** Frames being decoded, so messages are handled in arrival order */
+  private inbound: Promise<void> = Promise.resolve();
+  /** How binary frames are compressed, from the server's hello */
+  private encoding: ServerHelloMessage['encoding'];
   private messageHandlers = new Set<(message: ServerMessage) => void>();
   private stateHandlers = new Set<(state: ConnectionState) => void>();
 
@@ -30,6 +40,7 @@ export class WebSocketManager {
       autoReconnect: true,
       reconnectDelay: 1000,
       maxReconnectAttempts: 10,
+      compression: false,
       ...config,
     };
   }
@@ -54,6 +65,7 @@ export class WebSocketManager {
     try {
       const url = await this.buildUrl();
       this.ws = new WebSocket(url);
+      this.ws.binaryType = 'arraybuffer';
 
       this.ws.onopen = () => {
         this.setState('connected');
@@ -64,6 +76,8 @@ export class WebSocketManager {
 
       this.ws.onclose = (event) => {
         this.ws = null;
+        this.chunks.clear();
+        this.encoding = undefined;
         this.setState('disconnected');
         this.config.onDisconnect?.();
 
@@ -78,12 +92,17 @@ export class WebSocketManager {
       };
 
       this.ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data) as ServerMessage;
-          this.handleMessage(message);
-        } catch (error) {
-          console.error('Failed to parse WebSocket message:', error);
-        }
+        // Compressed frames decode asynchronously, so every frame waits
+        // for the ones before it (including the hello naming the encoding)
+        this.inbound = this.inbound.then(async () => {
+          try {
+            this.receive(
+              JSON.parse(await decodeFrame(event.data, this.encoding)),
+            );
+          } catch (error) {
+            console.error('Failed to parse WebSocket message:', error);
+          }
+        });
       };
     } catch (error) {
       this.setState('disconnected');
@@ -166,6 +185,55 @@ export class WebSocketManager {
     }
   }
 
+  /**
+   * Validate and dispatch received messages. With batching, a frame may
+   * carry an array of messages.
+   */
+  private receive(data: unknown): void {
+    for (const raw of Array.isArray(data) ? data : [data]) {
+      const parseResult = ServerMessageSchema.safeParse(raw);
+      if (!parseResult.success) {
+        console.error(
+          'Ignoring invalid WebSocket message:',
+          parseResult.error.issues,
+        );
+        continue;
+      }
+
+      const message = parseResult.data;
+      if (message.type === 'hello') {
+        this.encoding = message.encoding;
+      }
+      if (message.type === 'chunk') {
+        const json = this.addChunk(message);
+        if (json !== undefined) this.receive(JSON.parse(json));
+        continue;
+      }
+      this.handleMessage(message);
+    }
+  }
+
+  /**
+   * Store a part of a chunked message.
+   * Returns the message's JSON once every part has arrived.
+   */
+  private addChunk(chunk: ChunkMessage): string | undefined {
+    if (chunk.index >= chunk.count) return undefined;
+
+    let parts = this.chunks.get(chunk.chunkId);
+    if (!parts) {
+      parts = new Array<string>(chunk.count);
+      this.chunks.set(chunk.chunkId, parts);
+    }
+    parts[chunk.index] = chunk.data;
+
+    for (let i = 0; i < chunk.count; i++) {
+      if (parts[i] === undefined) return undefined;
+    }
+    this.chunks.delete(chunk.chunkId);
+    return parts.join('');
+  }
+
   private handleMessage(message: ServerMessage): void {
     for (const handler of this.messageHandlers) {
       handler(message);
@@ -204,3 +272,21 @@ export class WebSocketManager {
     }
   }
 }
+
+/**
+ * Get the JSON text of a frame: text frames as-is, binary frames
+ * decompressed with the encoding the server named in its hello (or
+ * decoded as UTF-8 if it named none)
+ */
+async function decodeFrame(
+  data: string | ArrayBuffer,
+  encoding: ServerHelloMessage['encoding'],
+): Promise<string> {
+  if (typeof data === 'string') return data;
+  if (!encoding) return new TextDecoder().decode(data);
+
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream(encoding));
+  return new Response(stream).text();
+}
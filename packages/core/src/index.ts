@@ -1,20 +1,74 @@
 // Main exports
-export { defineSchema, SystemSchemas, SystemTableNames } from './schema.js';
+export {
+  defineSchema,
+  QueryCursorSchema,
+  SystemSchemas,
+  SystemTableNames,
+} from './schema.js';
 export { DynamoTable } from './table.js';
 
+// Wire protocol
+export type {
+  CallMessage,
+  ChunkMessage,
+  ClientHelloMessage,
+  ClientMessage,
+  ErrorCode,
+  ErrorIssue,
+  ErrorMessage,
+  PatchMessage,
+  ProtocolFeature,
+  ResultMessage,
+  ServerHelloMessage,
+  ServerLimits,
+  ServerMessage,
+  SnapshotMessage,
+  SubscribeMessage,
+  UnsubscribedMessage,
+  UnsubscribeMessage,
+} from './protocol.js';
+export {
+  CallMessageSchema,
+  ChunkMessageSchema,
+  ClientHelloMessageSchema,
+  ClientMessageSchema,
+  ErrorCodeSchema,
+  ErrorIssueSchema,
+  ErrorMessageSchema,
+  JsonPatchSchema,
+  MIN_PROTOCOL_VERSION,
+  negotiateFeatures,
+  negotiateProtocolVersion,
+  PatchMessageSchema,
+  PROTOCOL_VERSION,
+  ProtocolFeatureSchema,
+  ResultMessageSchema,
+  ServerHelloMessageSchema,
+  ServerLimitsSchema,
+  ServerMessageSchema,
+  SnapshotMessageSchema,
+  SubscribeMessageSchema,
+  UnsubscribedMessageSchema,
+  UnsubscribeMessageSchema,
+} from './protocol.js';
+
 // Type exports from types.ts
 export type {
   AnyDynamoTable,
   ConnectionEntry,
+  DehydratedState,
   DependencyEntry,
   DynamoTableConfig,
   FieldRef,
   FilterCondition,
   IndexDefinition,
   JsonPatch,
+  QueryCursor,
   QueryEntry,
   QueryMetadata,
+  QueryPage,
   SubscriptionMessage,
+  WatchedFields,
 } from './types.js';
 
 // Type exports from table.ts (DynamoTable helper types)
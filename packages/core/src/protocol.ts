@@ -0,0 +1,236 @@
+import { z } from 'zod';
+
+/**
+ * WebSocket/HTTP message protocol shared by the server and client.
+ * Each side validates the messages it receives against these schemas.
+ */
+
+/**
+ * Protocol version, bumped on incompatible message changes
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Oldest protocol version this build can still speak
+ */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/**
+ * Optional protocol features, enabled when both ends support them
+ */
+export const ProtocolFeatureSchema = z.enum([
+  'compression',
+  'binaryFrames',
+  'batching',
+  'sequenceNumbers',
+]);
+
+/**
+ * Limits the server enforces, advertised in its hello
+ */
+export const ServerLimitsSchema = z.object({
+  /** Maximum active subscriptions per connection */
+  maxSubscriptions: z.number().int().positive().optional(),
+  /** Largest frame the server sends; larger messages arrive in chunks */
+  maxPayloadBytes: z.number().int().positive().optional(),
+});
+
+/**
+ * JSON Patch operation (RFC 6902)
+ */
+export const JsonPatchSchema = z.object({
+  op: z.enum(['add', 'remove', 'replace', 'move', 'copy', 'test']),
+  path: z.string(),
+  value: z.unknown().optional(),
+  from: z.string().optional(),
+});
+
+/**
+ * Error codes sent with error messages
+ */
+export const ErrorCodeSchema = z.enum([
+  'BAD_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'PAYLOAD_TOO_LARGE',
+  'INTERNAL',
+]);
+
+/**
+ * A single input validation failure
+ */
+export const ErrorIssueSchema = z.object({
+  /** Path to the invalid value within the input */
+  path: z.array(z.union([z.string(), z.number()])),
+  message: z.string(),
+  /** Zod issue code (e.g. 'invalid_type') */
+  code: z.string(),
+});
+
+/**
+ * Handshake sent by the client after connecting
+ */
+export const ClientHelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  protocolVersion: z.number().int(),
+  minProtocolVersion: z.number().int(),
+  features: z.array(z.string()),
+});
+
+/**
+ * Messages sent from client to server. Every request carries the id its
+ * responses are correlated by: subscriptionId or callId.
+ */
+export const SubscribeMessageSchema = z.object({
+  type: z.literal('subscribe'),
+  subscriptionId: z.string().min(1),
+  path: z.string(),
+  input: z.unknown(),
+});
+
+export const UnsubscribeMessageSchema = z.object({
+  type: z.literal('unsubscribe'),
+  subscriptionId: z.string().min(1),
+});
+
+export const CallMessageSchema = z.object({
+  type: z.literal('call'),
+  callId: z.string().min(1),
+  path: z.string(),
+  input: z.unknown(),
+});
+
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  ClientHelloMessageSchema,
+  SubscribeMessageSchema,
+  UnsubscribeMessageSchema,
+  CallMessageSchema,
+]);
+
+/**
+ * Handshake reply. Features are those both ends support; limits are
+ * the server's.
+ */
+export const ServerHelloMessageSchema = z.object({
+  type: z.literal('hello'),
+  protocolVersion: z.number().int(),
+  minProtocolVersion: z.number().int(),
+  features: z.array(z.string()),
+  limits: ServerLimitsSchema,
+  /** How binary frames are compressed, if compression was agreed */
+  encoding: z.enum(['gzip', 'deflate']).optional(),
+});
+
+/**
+ * Messages sent from server to client
+ */
+export const SnapshotMessageSchema = z.object({
+  type: z.literal('snapshot'),
+  subscriptionId: z.string(),
+  data: z.unknown(),
+  /** Version of the subscription's result the data is at */
+  version: z.number().int().optional(),
+});
+
+/**
+ * Patches taking a subscription's result from one version to the next.
+ * A client whose data isn't at fromVersion has missed a patch.
+ */
+export const PatchMessageSchema = z.object({
+  type: z.literal('patch'),
+  subscriptionId: z.string(),
+  patches: z.array(JsonPatchSchema),
+  fromVersion: z.number().int().optional(),
+  toVersion: z.number().int().optional(),
+});
+
+/** Acknowledges an unsubscribe */
+export const UnsubscribedMessageSchema = z.object({
+  type: z.literal('unsubscribed'),
+  subscriptionId: z.string(),
+});
+
+export const ResultMessageSchema = z.object({
+  type: z.literal('result'),
+  callId: z.string(),
+  data: z.unknown(),
+});
+
+/** Correlated by subscriptionId or callId when caused by a request */
+export const ErrorMessageSchema = z.object({
+  type: z.literal('error'),
+  code: ErrorCodeSchema,
+  message: z.string(),
+  /** Input validation failures, for BAD_REQUEST */
+  issues: z.array(ErrorIssueSchema).optional(),
+  subscriptionId: z.string().optional(),
+  callId: z.string().optional(),
+});
+
+/**
+ * One part of a message too large for a single frame. The client joins
+ * the data of all parts in order and handles the result as a message.
+ */
+export const ChunkMessageSchema = z.object({
+  type: z.literal('chunk'),
+  chunkId: z.string(),
+  index: z.number().int().nonnegative(),
+  count: z.number().int().positive(),
+  data: z.string(),
+});
+
+export const ServerMessageSchema = z.discriminatedUnion('type', [
+  ServerHelloMessageSchema,
+  SnapshotMessageSchema,
+  PatchMessageSchema,
+  UnsubscribedMessageSchema,
+  ResultMessageSchema,
+  ErrorMessageSchema,
+  ChunkMessageSchema,
+]);
+
+export type ProtocolFeature = z.infer<typeof ProtocolFeatureSchema>;
+export type ServerLimits = z.infer<typeof ServerLimitsSchema>;
+export type ErrorCode = z.infer<typeof ErrorCodeSchema>;
+export type ErrorIssue = z.infer<typeof ErrorIssueSchema>;
+export type ClientHelloMessage = z.infer<typeof ClientHelloMessageSchema>;
+export type ServerHelloMessage = z.infer<typeof ServerHelloMessageSchema>;
+export type SubscribeMessage = z.infer<typeof SubscribeMessageSchema>;
+export type UnsubscribeMessage = z.infer<typeof UnsubscribeMessageSchema>;
+export type CallMessage = z.infer<typeof CallMessageSchema>;
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type SnapshotMessage = z.infer<typeof SnapshotMessageSchema>;
+export type PatchMessage = z.infer<typeof PatchMessageSchema>;
+export type UnsubscribedMessage = z.infer<typeof UnsubscribedMessageSchema>;
+export type ResultMessage = z.infer<typeof ResultMessageSchema>;
+export type ErrorMessage = z.infer<typeof ErrorMessageSchema>;
+export type ChunkMessage = z.infer<typeof ChunkMessageSchema>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+/**
+ * Pick the protocol version two ends both speak: the lower of their
+ * current versions, if neither has dropped support for it.
+ * Returns null when the versions are incompatible.
+ */
+export function negotiateProtocolVersion(
+  a: { protocolVersion: number; minProtocolVersion: number },
+  b: { protocolVersion: number; minProtocolVersion: number },
+): number | null {
+  const version = Math.min(a.protocolVersion, b.protocolVersion);
+  return version >= Math.max(a.minProtocolVersion, b.minProtocolVersion)
+    ? version
+    : null;
+}
+
+/**
+ * Features supported by both ends. Unknown feature names are ignored so
+ * newer peers can advertise features older ones don't know about.
+ */
+export function negotiateFeatures(
+  ours: readonly ProtocolFeature[],
+  theirs: readonly string[],
+): ProtocolFeature[] {
+  return ours.filter((feature) => theirs.includes(feature));
+}
@@ -53,6 +53,8 @@ export const SystemSchemas = {
     connectionId: z.string(),
     context: z.record(z.unknown()).optional(),
     connectedAt: z.number(),
+    protocolVersion: z.number().optional(),
+    features: z.array(z.string()).optional(),
     ttl: z.number(),
   }),
 
@@ -67,6 +69,7 @@ export const SystemSchemas = {
     tableName: z.string(),
     fieldName: z.string(),
     fieldValue: z.string(),
+    conditions: z.array(z.unknown()).optional(),
     ttl: z.number(),
   }),
 
@@ -78,15 +81,32 @@ export const SystemSchemas = {
     sk: z.string(), // SubscriptionID
     connectionId: z.string(),
     subscriptionId: z.string(),
-    queryMetadata: z.object({
-      tableName: z.string(),
-      indexName: z.string().optional(),
-      filterConditions: z.array(z.unknown()),
-      sortField: z.string().optional(),
-      sortOrder: z.enum(['asc', 'desc']).optional(),
-      limit: z.number().optional(),
-    }),
-    lastResult: z.array(z.unknown()),
+    path: z.string().optional(),
+    input: z.unknown().optional(),
+    outputSchema: z.boolean().optional(),
+    rawResult: z.unknown().optional(),
+    queries: z.array(
+      z.object({
+        type: z.enum(['query', 'get']).optional(),
+        tableName: z.string(),
+        indexName: z.string().optional(),
+        pkField: z.string().optional(),
+        skField: z.string().optional(),
+        indexPkField: z.string().optional(),
+        indexSkField: z.string().optional(),
+        allowScan: z.boolean().optional(),
+        filterConditions: z.array(z.unknown()),
+        sortField: z.string().optional(),
+        sortOrder: z.enum(['asc', 'desc']).optional(),
+        limit: z.number().optional(),
+        startKey: z.record(z.unknown()).optional(),
+        paged: z.boolean().optional(),
+        endKey: z.record(z.unknown()).optional(),
+        resultPath: z.string().optional(),
+      }),
+    ),
+    lastResult: z.unknown(),
+    version: z.number(),
     dependencies: z.array(z.string()),
     createdAt: z.number(),
     updatedAt: z.number(),
@@ -94,6 +114,20 @@ export const SystemSchemas = {
   }),
 };
 
+/**
+ * Schema for a pagination cursor in procedure inputs
+ *
+ * @example
+ * ```ts
+ * t.procedure
+ *   .input(z.object({ cursor: QueryCursorSchema.nullish() }))
+ *   .query(({ ctx, input }) =>
+ *     ctx.db.query(TodoTable).startFrom(input.cursor).take(20).executePage(),
+ *   );
+ * ```
+ */
+export const QueryCursorSchema = z.string().min(1).brand<'QueryCursor'>();
+
 /**
  * System table names
  */
@@ -88,9 +88,26 @@ export interface DependencyEntry {
   tableName: string;
   fieldName: string;
   fieldValue: string;
+  /** Conditions of a range watcher; the entry matches if any holds */
+  conditions?: FilterCondition[];
   ttl: number;
 }
 
+/**
+ * Fields of a table that subscriptions depend on. Stream processing only
+ * probes the inverted index for the dependency keys these can produce.
+ */
+export interface WatchedFields {
+  /** Whether a subscription depends on every change to the table */
+  tableWide: boolean;
+  /** Fields with equality dependencies */
+  fields: string[];
+  /** Fields with range watchers */
+  rangeFields: string[];
+  /** Prefix lengths watched by begins_with dependencies, per field */
+  prefixLengths: Record<string, number[]>;
+}
+
 /**
  * Connection entry for tracking WebSocket connections
  */
@@ -98,6 +115,10 @@ export interface ConnectionEntry {
   connectionId: string;
   context?: Record<string, unknown>;
   connectedAt: number;
+  /** Protocol version negotiated in the hello handshake */
+  protocolVersion?: number;
+  /** Protocol features negotiated in the hello handshake */
+  features?: string[];
   ttl: number;
 }
 
@@ -119,10 +140,22 @@ export interface FilterCondition {
  * Contains all information needed to evaluate stream changes
  */
 export interface QueryMetadata {
+  /** Operation kind; 'get' is a point lookup by primary key (default 'query') */
+  type?: 'query' | 'get';
   /** Table name being queried */
   tableName: string;
   /** Index name if using a GSI */
   indexName?: string;
+  /** Primary key field of the table, used to identify records in lastResult */
+  pkField?: string;
+  /** Sort key field of the table (if any) */
+  skField?: string;
+  /** Partition key field of the index (when indexName is set) */
+  indexPkField?: string;
+  /** Sort key field of the index (if any) */
+  indexSkField?: string;
+  /** Whether the query was allowed to run as a scan */
+  allowScan?: boolean;
   /** Filter conditions to evaluate against records */
   filterConditions: FilterCondition[];
   /** Field to sort by */
@@ -131,6 +164,43 @@ export interface QueryMetadata {
   sortOrder?: 'asc' | 'desc';
   /** Maximum number of results */
   limit?: number;
+  /** Exclusive start key the query was executed from */
+  startKey?: Record<string, unknown>;
+  /**
+   * Whether the query was executed as a page. A live page keeps a stable
+   * window between startKey and endKey instead of truncating to limit.
+   */
+  paged?: boolean;
+  /** Last key of the page; records sorting after it belong to later pages */
+  endKey?: Record<string, unknown>;
+  /**
+   * JSON pointer to the query's items (or, for a get, the item) within the
+   * procedure output
+   */
+  resultPath?: string;
+}
+
+/**
+ * Opaque pagination cursor. Serializable, so it can be returned to the
+ * client and passed back in as procedure input.
+ */
+export type QueryCursor = string & z.BRAND<'QueryCursor'>;
+
+/**
+ * A page of query results
+ */
+export interface QueryPage<T> {
+  items: T[];
+  /** Cursor for the next page, or null when there are no more results */
+  nextCursor: QueryCursor | null;
+}
+
+/**
+ * Subscription results prefetched on the server with createServerHelpers,
+ * passed to the client's ReactiveClientProvider as `dehydratedState`
+ */
+export interface DehydratedState {
+  subscriptions: { path: string; input: unknown; data: unknown }[];
 }
 
 /**
@@ -142,10 +212,35 @@ export interface QueryEntry {
   sk: string; // SubscriptionID
   connectionId: string;
   subscriptionId: string;
-  /** Query metadata for evaluating stream changes */
-  queryMetadata: QueryMetadata;
-  /** Last query result (raw items from DB) */
-  lastResult: unknown[];
+  /** Procedure path the subscription executes */
+  path?: string;
+  /** Input the procedure was subscribed with, for re-running it */
+  input?: unknown;
+  /**
+   * Whether the procedure declares an output schema, which recomputed
+   * results must be validated against before they are stored or sent
+   */
+  outputSchema?: boolean;
+  /**
+   * Procedure output before its output schema was applied, for procedures
+   * with one. Stream changes are applied to it, then the schema, so the
+   * schema never parses its own output.
+   */
+  rawResult?: unknown;
+  /**
+   * Metadata for each query the procedure ran, for evaluating stream changes.
+   * The output is assembled by placing each query's items at its resultPath
+   * within rawResult (or lastResult without an output schema); a change to a query without one re-runs the
+   * procedure.
+   */
+  queries: QueryMetadata[];
+  /** Last procedure output sent to the client */
+  lastResult: unknown;
+  /**
+   * Version of lastResult, incremented with every patch and every
+   * snapshot. Updates are conditional on it.
+   */
+  version: number;
   /** Dependency keys for the inverted index */
   dependencies: string[];
   createdAt: number;
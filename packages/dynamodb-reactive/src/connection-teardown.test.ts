@@ -0,0 +1,200 @@
+import type { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { describe, expect, it } from 'vitest';
+
+import { teardownConnection, teardownSubscription } from './server.js';
+
+type Item = Record<string, unknown>;
+
+/**
+ * The command input fields the fake document client reads
+ */
+interface CommandInput {
+  TableName: string;
+  IndexName?: string;
+  Key: Item;
+  ExpressionAttributeValues: Item;
+  ExclusiveStartKey?: { offset: number };
+  RequestItems: Record<string, { DeleteRequest: { Key: Item } }[]>;
+}
+
+const tables = {
+  connectionsTable: 'connections',
+  queriesTable: 'queries',
+  dependenciesTable: 'dependencies',
+};
+
+/**
+ * Items per page of a Query, so teardown has to follow LastEvaluatedKey
+ */
+const PAGE_SIZE = 10;
+
+/**
+ * An in-memory document client for the commands teardown sends.
+ * `unprocessed` lists how many items each BatchWriteItem call leaves
+ * unprocessed, in call order.
+ */
+function createFakeDocClient(unprocessed: number[] = []) {
+  const store: Record<string, Item[]> = {
+    connections: [],
+    queries: [],
+    dependencies: [],
+  };
+  const batches: { table: string; keys: Item[] }[] = [];
+
+  const matchesKey = (item: Item, key: Item) =>
+    Object.entries(key).every(([name, value]) => item[name] === value);
+  const deleteKey = (table: string, key: Item) => {
+    store[table] = store[table].filter((item) => !matchesKey(item, key));
+  };
+
+  const handlers: Record<string, (input: CommandInput) => unknown> = {
+    QueryCommand: (input) => {
+      const value = input.ExpressionAttributeValues[':cid'];
+      const field =
+        input.IndexName === 'byConnectionId' ? 'connectionId' : 'pk';
+      const matches = store[input.TableName].filter(
+        (item) => item[field] === value,
+      );
+      const offset = input.ExclusiveStartKey?.offset ?? 0;
+      const end = offset + PAGE_SIZE;
+      return {
+        Items: matches.slice(offset, end),
+        LastEvaluatedKey: end < matches.length ? { offset: end } : undefined,
+      };
+    },
+    BatchWriteCommand: (input) => {
+      const [[table, requests]] = Object.entries(input.RequestItems);
+      const skipped = requests.slice(0, unprocessed.shift() ?? 0);
+      const processed = requests.slice(skipped.length);
+      batches.push({
+        table,
+        keys: processed.map((request) => request.DeleteRequest.Key),
+      });
+      for (const request of processed) {
+        deleteKey(table, request.DeleteRequest.Key);
+      }
+      return skipped.length > 0
+        ? { UnprocessedItems: { [table]: skipped } }
+        : {};
+    },
+    GetCommand: (input) => ({
+      Item: store[input.TableName].find((item) => matchesKey(item, input.Key)),
+    }),
+    DeleteCommand: (input) => {
+      deleteKey(input.TableName, input.Key);
+      return {};
+    },
+  };
+
+  const docClient = {
+    send: async (command: { input: CommandInput }) =>
+      handlers[command.constructor.name](command.input),
+  } as unknown as DynamoDBDocumentClient;
+
+  return { docClient, store, batches };
+}
+
+/**
+ * Store a connection with subscriptions, each with dependency entries
+ */
+function addConnection(
+  store: Record<string, Item[]>,
+  connectionId: string,
+  subscriptions: Record<string, string[]>,
+) {
+  store.connections.push({ connectionId });
+  for (const [subscriptionId, dependencies] of Object.entries(subscriptions)) {
+    store.queries.push({ pk: connectionId, sk: subscriptionId, dependencies });
+    for (const key of dependencies) {
+      store.dependencies.push({
+        pk: key,
+        sk: `${connectionId}#${subscriptionId}`,
+        connectionId,
+        subscriptionId,
+      });
+    }
+  }
+}
+
+/**
+ * Dependency keys todos#id#0 ... todos#id#(count - 1)
+ */
+function keys(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `todos#id#${i}`);
+}
+
+describe('teardownConnection', () => {
+  it('deletes the connection, its subscriptions and their dependencies', async () => {
+    const { docClient, store, batches } = createFakeDocClient();
+    addConnection(store, 'c1', { s1: keys(30), s2: keys(3) });
+    addConnection(store, 'c2', { s1: keys(2) });
+
+    await teardownConnection(docClient, tables, 'c1');
+
+    expect(store.connections).toEqual([{ connectionId: 'c2' }]);
+    expect(store.queries.map((item) => item.pk)).toEqual(['c2']);
+    expect(store.dependencies.map((item) => item.connectionId)).toEqual([
+      'c2',
+      'c2',
+    ]);
+
+    // 33 entries, in batches of at most 25, before the subscriptions
+    expect(batches.map(({ table, keys }) => [table, keys.length])).toEqual([
+      ['dependencies', 25],
+      ['dependencies', 8],
+      ['queries', 2],
+    ]);
+    expect(batches[0].keys[0]).toEqual({ pk: 'todos#id#0', sk: 'c1#s1' });
+  });
+
+  it('retries unprocessed items', async () => {
+    const { docClient, store } = createFakeDocClient([2, 1]);
+    addConnection(store, 'c1', { s1: keys(3) });
+
+    await teardownConnection(docClient, tables, 'c1');
+
+    expect(store.dependencies).toEqual([]);
+    expect(store.queries).toEqual([]);
+  });
+
+  it('gives up on items that stay unprocessed', async () => {
+    const { docClient, store } = createFakeDocClient([1, 1, 1, 1, 1]);
+    addConnection(store, 'c1', { s1: keys(3) });
+
+    await expect(teardownConnection(docClient, tables, 'c1')).rejects.toThrow(
+      'Failed to delete 1 items from dependencies',
+    );
+    // The connection is kept, so a later teardown can finish the job
+    expect(store.connections).toEqual([{ connectionId: 'c1' }]);
+  });
+});
+
+describe('teardownSubscription', () => {
+  it('deletes only the subscription and its dependencies', async () => {
+    const { docClient, store } = createFakeDocClient();
+    addConnection(store, 'c1', { s1: keys(2), s2: keys(1) });
+
+    await teardownSubscription(docClient, tables, 'c1', 's1');
+
+    expect(store.queries.map((item) => item.sk)).toEqual(['s2']);
+    expect(store.dependencies).toEqual([
+      {
+        pk: 'todos#id#0',
+        sk: 'c1#s2',
+        connectionId: 'c1',
+        subscriptionId: 's2',
+      },
+    ]);
+    expect(store.connections).toEqual([{ connectionId: 'c1' }]);
+  });
+
+  it('does nothing for an unknown subscription', async () => {
+    const { docClient, store, batches } = createFakeDocClient();
+    addConnection(store, 'c1', { s1: keys(1) });
+
+    await teardownSubscription(docClient, tables, 'c1', 'missing');
+
+    expect(batches).toEqual([]);
+    expect(store.queries).toHaveLength(1);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { changeMatchesConditions } from '../../server/src/stream-evaluator.js';
+import { DynamoTable } from './core.js';
+import {
+  collectWatchedFields,
+  createDependencyKey,
+  createFilterBuilder,
+  DependencyTracker,
+  extractAffectedKeys,
+  extractDependencies,
+  fromWatchedFieldEntries,
+  parseDependencyKey,
+  toWatchedFieldEntries,
+  type TrackedQueryOperation,
+} from './server.js';
+
+const TodoTable = new DynamoTable({
+  tableName: 'todos',
+  schema: z.object({
+    listId: z.string(),
+    id: z.string(),
+    title: z.string(),
+    priority: z.number(),
+    done: z.boolean(),
+  }),
+  pk: 'listId',
+  sk: 'id',
+});
+
+const q = createFilterBuilder<typeof TodoTable>();
+const { field } = TodoTable;
+
+/**
+ * A query operation on the todos table with the given filters
+ */
+function operation(
+  ...filters: TrackedQueryOperation['filters']
+): TrackedQueryOperation {
+  return { tableName: 'todos', pkField: 'listId', skField: 'id', filters };
+}
+
+/**
+ * Dependency keys of a query with the given filters
+ */
+function dependencyKeys(...filters: TrackedQueryOperation['filters']) {
+  return extractDependencies(operation(...filters)).map(createDependencyKey);
+}
+
+describe('extractDependencies', () => {
+  it('tracks equalities by value', () => {
+    expect(dependencyKeys(q.eq(field.listId, 'list-1'))).toEqual([
+      'todos#listId#list-1',
+    ]);
+  });
+
+  it('tracks only the most selective condition of a conjunction', () => {
+    expect(
+      dependencyKeys(
+        q.gt(field.priority, 2),
+        q.and(q.beginsWith(field.id, 'a'), q.eq(field.listId, 'list-1')),
+      ),
+    ).toEqual(['todos#listId#list-1']);
+    expect(
+      dependencyKeys(q.gt(field.priority, 2), q.beginsWith(field.id, 'ab')),
+    ).toEqual(['todos#id#prefix:ab']);
+  });
+
+  it('tracks every branch of or()', () => {
+    expect(
+      dependencyKeys(
+        q.or(q.eq(field.listId, 'list-1'), q.beginsWith(field.title, 'Buy')),
+      ),
+    ).toEqual(['todos#listId#list-1', 'todos#title#prefix:Buy']);
+  });
+
+  it('watches ranges with their stored conditions', () => {
+    expect(
+      extractDependencies(
+        operation(q.gt(field.priority, 2), q.between(field.id, 'a', 'm')),
+      ),
+    ).toEqual([
+      {
+        tableName: 'todos',
+        fieldName: 'priority',
+        fieldValue: 'range:*',
+        indexName: undefined,
+        condition: {
+          type: 'comparison',
+          operator: 'gt',
+          field: 'priority',
+          value: 2,
+        },
+      },
+      expect.objectContaining({
+        fieldName: 'id',
+        fieldValue: 'range:*',
+        condition: expect.objectContaining({ operator: 'between' }),
+      }),
+    ]);
+  });
+
+  it('watches every field a negation references', () => {
+    const dependencies = extractDependencies(
+      operation(q.not(q.and(q.eq(field.done, true), q.lt(field.priority, 3)))),
+    );
+
+    expect(dependencies.map(createDependencyKey)).toEqual([
+      'todos#done#range:*',
+      'todos#priority#range:*',
+    ]);
+    expect(dependencies[0].condition).toMatchObject({
+      operator: 'not',
+      conditions: [{ operator: 'and' }],
+    });
+  });
+
+  it('depends on the whole table without a trackable filter', () => {
+    expect(dependencyKeys()).toEqual(['todos#*']);
+  });
+});
+
+describe('dependency keys', () => {
+  it('parse back, including values that contain #', () => {
+    for (const key of ['todos#*', 'todos#id#a#b', 'todos#id#prefix:x']) {
+      expect(createDependencyKey(parseDependencyKey(key)!)).toBe(key);
+    }
+    expect(parseDependencyKey('todos#id')).toBeNull();
+  });
+});
+
+describe('watched fields', () => {
+  const dependencies = extractDependencies(
+    operation(
+      q.or(
+        q.eq(field.listId, 'list-1'),
+        q.beginsWith(field.title, 'Buy'),
+        q.beginsWith(field.title, 'Sell'),
+        q.gt(field.priority, 2),
+      ),
+    ),
+  );
+
+  it('collects the fields, ranges and prefix lengths per table', () => {
+    expect(collectWatchedFields(dependencies)).toEqual(
+      new Map([
+        [
+          'todos',
+          {
+            tableWide: false,
+            fields: ['listId'],
+            rangeFields: ['priority'],
+            prefixLengths: { title: [3, 4] },
+          },
+        ],
+      ]),
+    );
+  });
+
+  it('round-trip through their entries', () => {
+    const watched = collectWatchedFields([
+      ...dependencies,
+      ...extractDependencies(operation()),
+    ]).get('todos')!;
+
+    expect(toWatchedFieldEntries(watched)).toEqual([
+      '*',
+      'field#listId',
+      'range#priority',
+      'prefix#3#title',
+      'prefix#4#title',
+    ]);
+    expect(fromWatchedFieldEntries(toWatchedFieldEntries(watched))).toEqual(
+      watched,
+    );
+  });
+
+  it('ignore unrecognized entries', () => {
+    expect(fromWatchedFieldEntries(['other', 'field', 'prefix#3'])).toEqual({
+      tableWide: false,
+      fields: [],
+      rangeFields: [],
+      prefixLengths: {},
+    });
+  });
+});
+
+describe('extractAffectedKeys', () => {
+  const item = { listId: 'list-1', id: 'a', title: 'Buy milk', done: null };
+
+  it('produces only the keys watched fields can match', () => {
+    expect(
+      extractAffectedKeys('todos', item, {
+        tableWide: false,
+        fields: ['listId'],
+        rangeFields: ['id'],
+        prefixLengths: { title: [3, 20] },
+      }),
+    ).toEqual([
+      'todos#listId#list-1',
+      'todos#id#range:*',
+      'todos#title#prefix:Buy',
+    ]);
+  });
+
+  it('probes every field by value and range without watched fields', () => {
+    expect(extractAffectedKeys('todos', { listId: 'list-1' })).toEqual([
+      'todos#*',
+      'todos#listId#list-1',
+      'todos#listId#range:*',
+    ]);
+  });
+});
+
+describe('changeMatchesConditions', () => {
+  const [watcher] = extractDependencies(operation(q.gt(field.priority, 2)));
+  const todo = { listId: 'list-1', id: 'a', title: 'Milk', done: false };
+
+  it('matches changes entering or leaving the range', () => {
+    const change = (before: number | null, after: number | null) => ({
+      tableName: 'todos',
+      oldImage: before === null ? null : { ...todo, priority: before },
+      newImage: after === null ? null : { ...todo, priority: after },
+    });
+
+    expect(changeMatchesConditions(change(1, 5), [watcher.condition!])).toBe(
+      true,
+    );
+    expect(changeMatchesConditions(change(5, null), [watcher.condition!])).toBe(
+      true,
+    );
+    expect(changeMatchesConditions(change(1, 2), [watcher.condition!])).toBe(
+      false,
+    );
+  });
+});
+
+describe('DependencyTracker', () => {
+  it('locates each query result in the procedure output', () => {
+    const tracker = new DependencyTracker();
+    const lists = [{ listId: 'list-1', id: 'a' }];
+    const todos = [{ listId: 'list-1', id: 'b' }];
+    tracker.track(operation(q.eq(field.listId, 'list-1')), lists);
+    tracker.track(operation(q.eq(field.listId, 'list-2')), todos);
+    tracker.track(operation(), [{ transformed: true }]);
+
+    const metadata = tracker.getQueryMetadata({ lists, nested: { todos } });
+
+    expect(metadata.map((m) => m.resultPath)).toEqual([
+      '/lists',
+      '/nested/todos',
+      undefined,
+    ]);
+    expect(tracker.getDependencyKeys()).toEqual([
+      'todos#listId#list-1',
+      'todos#listId#list-2',
+      'todos#*',
+    ]);
+  });
+});
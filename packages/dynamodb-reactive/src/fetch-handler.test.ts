@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import {
+  createFetchHandler,
+  createReactiveHandler,
+  type FetchHandlerConfig,
+  initReactive,
+  ReactiveError,
+} from './server.js';
+
+const t = initReactive<{ userId: string }>();
+
+const router = t.router({
+  echo: t.procedure
+    .input(z.object({ text: z.string() }))
+    .mutation(({ input }) => input.text),
+  forbidden: t.procedure.query(() => {
+    throw new ReactiveError({ code: 'FORBIDDEN', message: 'Not yours' });
+  }),
+});
+
+const handler = createReactiveHandler({
+  router,
+  getContext: async (connectionId) => ({ userId: connectionId }),
+  dbConfig: { region: 'us-east-1' },
+});
+
+/**
+ * A call request for a procedure
+ */
+function call(path: string, input?: unknown, callId = path) {
+  return { type: 'call', callId, path, input };
+}
+
+/**
+ * POST a JSON body to a fetch handler
+ */
+function post(
+  body: unknown,
+  options: Partial<FetchHandlerConfig<{ userId: string }>> = {},
+) {
+  const fetchHandler = createFetchHandler({
+    handler,
+    getConnectionId: () => 'conn-1',
+    ...options,
+  });
+  return fetchHandler(
+    new Request('http://localhost/api/reactive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    }),
+  );
+}
+
+describe('createFetchHandler', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers a request with 200', async () => {
+    const response = await post(call('echo', { text: 'hi' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      type: 'result',
+      callId: 'echo',
+      data: 'hi',
+    });
+  });
+
+  it('maps error codes to their HTTP status', async () => {
+    const forbidden = await post(call('forbidden'));
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toMatchObject({
+      type: 'error',
+      code: 'FORBIDDEN',
+      message: 'Not yours',
+      callId: 'forbidden',
+    });
+
+    expect((await post(call('missing'))).status).toBe(404);
+    expect((await post(call('echo', { text: 1 }))).status).toBe(400);
+    expect((await post({ type: 'unknown' })).status).toBe(400);
+  });
+
+  it('answers a batch in order, with 207 if any request failed', async () => {
+    const ok = await post([
+      call('echo', { text: 'a' }, '1'),
+      call('echo', { text: 'b' }, '2'),
+    ]);
+    expect(ok.status).toBe(200);
+    expect(await ok.json()).toEqual([
+      { type: 'result', callId: '1', data: 'a' },
+      { type: 'result', callId: '2', data: 'b' },
+    ]);
+
+    const mixed = await post([call('echo', { text: 'a' }), call('forbidden')]);
+    expect(mixed.status).toBe(207);
+    expect(
+      ((await mixed.json()) as { type: string }[]).map((r) => r.type),
+    ).toEqual(['result', 'error']);
+  });
+
+  it('rejects a batch over the limit with 413', async () => {
+    const getConnectionId = vi.fn(() => 'conn-1');
+    const response = await post([call('echo'), call('echo'), call('echo')], {
+      maxBatchSize: 2,
+      getConnectionId,
+    });
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ code: 'PAYLOAD_TOO_LARGE' });
+    expect(getConnectionId).not.toHaveBeenCalled();
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    const invalid = await post('{"type":');
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toMatchObject({
+      message: 'Invalid JSON body',
+    });
+
+    const fetchHandler = createFetchHandler({
+      handler,
+      getConnectionId: () => 'conn-1',
+    });
+    const text = await fetchHandler(
+      new Request('http://localhost/api/reactive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: '{}',
+      }),
+    );
+    expect(text.status).toBe(415);
+
+    const get = await fetchHandler(new Request('http://localhost/'));
+    expect(get.status).toBe(405);
+    expect(get.headers.get('Allow')).toBe('POST');
+  });
+
+  it('keeps the code of a ReactiveError rejecting the connection', async () => {
+    const response = await post(call('echo', { text: 'hi' }), {
+      getConnectionId: () => {
+        throw new ReactiveError({ code: 'FORBIDDEN', message: 'Not yours' });
+      },
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: 'Not yours' });
+  });
+
+  it('hides other connection errors behind 401 Unknown connection', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => undefined);
+    const cause = new Error('Item not found in connections-table');
+
+    const response = await post(call('echo', { text: 'hi' }), {
+      getConnectionId: () => Promise.reject(cause),
+    });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      type: 'error',
+      code: 'UNAUTHORIZED',
+      message: 'Unknown connection',
+    });
+    expect(consoleError).toHaveBeenCalledWith(
+      'Error resolving connection:',
+      cause,
+    );
+  });
+});
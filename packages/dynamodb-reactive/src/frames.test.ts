@@ -0,0 +1,247 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { applyPatches, WebSocketManager } from './client.js';
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  type ServerMessage,
+} from './core.js';
+import {
+  type CompressionOptions,
+  createServerHello,
+  encodeMessage,
+  type EncodeOptions,
+  generatePatches,
+} from './server.js';
+
+/**
+ * Stands in for the browser WebSocket, letting tests deliver frames
+ */
+class FakeWebSocket {
+  static readonly OPEN = 1;
+  static last: FakeWebSocket | undefined;
+
+  readyState = FakeWebSocket.OPEN;
+  binaryType = 'blob';
+  onopen: (() => void) | null = null;
+  onclose: ((event: { wasClean: boolean }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeWebSocket.last = this;
+  }
+
+  send(): void {}
+
+  close(): void {}
+}
+
+/**
+ * Items with pseudo-random text, so compressed frames stay large
+ */
+function createItems(count: number, seed = 1) {
+  let state = seed;
+  const random = () => {
+    state = (state * 48271) % 2147483647;
+    return state.toString(36);
+  };
+
+  return Array.from({ length: count }, (_, i) => ({
+    pk: `list#${seed}`,
+    sk: `item#${String(i).padStart(4, '0')}`,
+    title: `Item ${i}`,
+    notes: Array.from({ length: 8 }, random).join(' '),
+  }));
+}
+
+/**
+ * The result a subscription moves to: one item removed, one changed,
+ * one added
+ */
+function updateItems(items: ReturnType<typeof createItems>) {
+  const next = items.filter((_, i) => i !== 3);
+  next[0] = { ...next[0], title: 'Renamed' };
+  next.push({ ...items[1], sk: 'item#9999', title: 'Added' });
+  return next;
+}
+
+const keyedArrays = [{ path: '/items', pkField: 'pk', skField: 'sk' }];
+
+/**
+ * Encode messages as the server would for a connection, deliver the
+ * frames to a WebSocketManager after a hello announcing the compression,
+ * and return the messages it dispatches
+ */
+async function roundTrip(
+  messages: (ServerMessage | ServerMessage[])[],
+  options: EncodeOptions,
+): Promise<ServerMessage[]> {
+  const manager = new WebSocketManager({
+    url: 'wss://example.test',
+    autoReconnect: false,
+  });
+  const received: ServerMessage[] = [];
+  manager.onMessage((message) => received.push(message));
+  await manager.connect();
+
+  const socket = FakeWebSocket.last!;
+  socket.onopen?.();
+
+  const hello = createServerHello(
+    {
+      type: 'hello',
+      protocolVersion: PROTOCOL_VERSION,
+      minProtocolVersion: MIN_PROTOCOL_VERSION,
+      features: ['compression', 'binaryFrames', 'batching'],
+    },
+    {
+      compression: !!options.compression,
+      encoding: options.compression?.encoding,
+    },
+  );
+  // Marks the end of the frames, which are handled in arrival order
+  const done: ServerMessage = { type: 'unsubscribed', subscriptionId: 'done' };
+
+  const frames = [
+    JSON.stringify(hello),
+    ...messages.flatMap((message) => encodeMessage(message, options)),
+    JSON.stringify(done),
+  ];
+  for (const frame of frames) {
+    socket.onmessage?.({
+      data: typeof frame === 'string' ? frame : new Uint8Array(frame).buffer,
+    });
+  }
+
+  await vi.waitFor(() => expect(received.at(-1)).toEqual(done));
+  return received.slice(1, -1);
+}
+
+/**
+ * Rebuild a subscription's result from a snapshot and the patches after it
+ */
+function replay(messages: ServerMessage[]): unknown {
+  let data: unknown;
+  for (const message of messages) {
+    if (message.type === 'snapshot') data = message.data;
+    if (message.type === 'patch') data = applyPatches(data, message.patches);
+  }
+  return data;
+}
+
+/**
+ * Count the frames encoded for messages, by kind
+ */
+function countFrames(
+  messages: (ServerMessage | ServerMessage[])[],
+  options: EncodeOptions,
+) {
+  const frames = messages.flatMap((message) => encodeMessage(message, options));
+  return {
+    binary: frames.filter((frame) => typeof frame !== 'string').length,
+    text: frames.filter((frame) => typeof frame === 'string').length,
+  };
+}
+
+describe('frame round trip', () => {
+  const before = { items: createItems(60) };
+  const after = { items: updateItems(before.items) };
+  const updates: ServerMessage[] = [
+    {
+      type: 'snapshot',
+      subscriptionId: 'sub-1',
+      data: before,
+      version: 1,
+    },
+    {
+      type: 'patch',
+      subscriptionId: 'sub-1',
+      patches: generatePatches(before, after, keyedArrays),
+      fromVersion: 1,
+      toVersion: 2,
+    },
+  ];
+
+  beforeEach(() => {
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each<CompressionOptions['encoding']>(['gzip', 'deflate'])(
+    'applies %s compressed snapshots and patches',
+    async (encoding) => {
+      const options = { compression: { encoding } };
+      expect(countFrames(updates, options).binary).toBeGreaterThan(0);
+
+      const received = await roundTrip(updates, options);
+
+      expect(received).toEqual(updates);
+      expect(replay(received)).toEqual(after);
+    },
+  );
+
+  it.each<CompressionOptions['encoding']>(['gzip', 'deflate'])(
+    'joins %s compressed chunks',
+    async (encoding) => {
+      // Messages too large even compressed are chunked, then each chunk
+      // over the threshold is compressed
+      const options = {
+        compression: { encoding, thresholdBytes: 256 },
+        maxPayloadBytes: 1024,
+      };
+      expect(countFrames(updates, options).binary).toBeGreaterThan(
+        updates.length,
+      );
+
+      const received = await roundTrip(updates, options);
+
+      expect(received).toEqual(updates);
+      expect(replay(received)).toEqual(after);
+    },
+  );
+
+  it('unpacks compressed batches in order', async () => {
+    const options = { compression: { encoding: 'gzip' as const } };
+    expect(countFrames([updates], options)).toEqual({ binary: 1, text: 0 });
+
+    const received = await roundTrip([updates], options);
+
+    expect(received).toEqual(updates);
+    expect(replay(received)).toEqual(after);
+  });
+
+  it('sends small frames as text when compressing', async () => {
+    const small = { items: createItems(2) };
+    const messages: ServerMessage[] = [
+      { type: 'snapshot', subscriptionId: 'sub-2', data: small, version: 1 },
+      {
+        type: 'patch',
+        subscriptionId: 'sub-2',
+        patches: generatePatches(small, { items: [] }, keyedArrays),
+        fromVersion: 1,
+        toVersion: 2,
+      },
+    ];
+    const options = { compression: { encoding: 'gzip' as const } };
+    expect(countFrames(messages, options)).toEqual({ binary: 0, text: 2 });
+
+    const received = await roundTrip(messages, options);
+
+    expect(received).toEqual(messages);
+    expect(replay(received)).toEqual({ items: [] });
+  });
+
+  it('sends text frames without compression', async () => {
+    const options = { maxPayloadBytes: 1024 };
+    expect(countFrames(updates, options).binary).toBe(0);
+
+    const received = await roundTrip(updates, options);
+
+    expect(received).toEqual(updates);
+    expect(replay(received)).toEqual(after);
+  });
+});
@@ -0,0 +1,311 @@
+import type { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { DynamoTable } from './core.js';
+import {
+  buildKeyConditionQuery,
+  buildScanFilter,
+  createFilterBuilder,
+  executeQueryOperation,
+  isPartitionKeyPinned,
+  QueryBuilderImpl,
+  ReactiveError,
+  type TrackedQueryOperation,
+} from './server.js';
+
+const TodoTable = new DynamoTable({
+  tableName: 'todos',
+  schema: z.object({
+    listId: z.string(),
+    id: z.string(),
+    ownerId: z.string(),
+    dueAt: z.number(),
+    title: z.string(),
+  }),
+  pk: 'listId',
+  sk: 'id',
+  indexes: {
+    byOwner: { name: 'gsi_by_owner', pk: 'ownerId', sk: 'dueAt' },
+  },
+});
+
+const q = createFilterBuilder<typeof TodoTable>();
+const { field } = TodoTable;
+
+/**
+ * A query operation on the todos table with the given filters
+ */
+function operation(
+  ...filters: TrackedQueryOperation['filters']
+): TrackedQueryOperation {
+  return { tableName: 'todos', pkField: 'listId', skField: 'id', filters };
+}
+
+/**
+ * The operation a query builder runs after the given calls
+ */
+function builtOperation(
+  build: (query: QueryBuilderImpl<typeof TodoTable>) => unknown,
+): TrackedQueryOperation {
+  const query = new QueryBuilderImpl(TodoTable, async () => ({ items: [] }));
+  build(query);
+  return query.getOperation();
+}
+
+describe('buildKeyConditionQuery', () => {
+  it('uses a pinned partition key and a sort key condition', () => {
+    expect(
+      buildKeyConditionQuery(
+        operation(q.eq(field.listId, 'list-1'), q.beginsWith(field.id, 'a')),
+      ),
+    ).toEqual({
+      keyConditionExpression: '#n0 = :v0 AND begins_with(#n1, :v1)',
+      filterExpression: undefined,
+      expressionAttributeNames: { '#n0': 'listId', '#n1': 'id' },
+      expressionAttributeValues: { ':v0': 'list-1', ':v1': 'a' },
+    });
+  });
+
+  it('flattens and() and filters on the remaining conditions', () => {
+    expect(
+      buildKeyConditionQuery(
+        operation(
+          q.and(
+            q.eq(field.title, 'Milk'),
+            q.or(q.eq(field.ownerId, 'u1'), q.eq(field.ownerId, 'u2')),
+          ),
+          q.eq(field.listId, 'list-1'),
+        ),
+      ),
+    ).toEqual({
+      keyConditionExpression: '#n0 = :v0',
+      filterExpression: '#n1 = :v1 AND (#n2 = :v2 OR #n2 = :v3)',
+      expressionAttributeNames: {
+        '#n0': 'listId',
+        '#n1': 'title',
+        '#n2': 'ownerId',
+      },
+      expressionAttributeValues: {
+        ':v0': 'list-1',
+        ':v1': 'Milk',
+        ':v2': 'u1',
+        ':v3': 'u2',
+      },
+    });
+  });
+
+  it('renders between() as a sort key range', () => {
+    expect(
+      buildKeyConditionQuery(
+        operation(q.eq(field.listId, 'list-1'), q.between(field.id, 'a', 'm')),
+      )?.keyConditionExpression,
+    ).toBe('#n0 = :v0 AND #n1 BETWEEN :v1 AND :v2');
+  });
+
+  it('rejects sort key operators a key condition cannot hold', () => {
+    // <> can't go in the key condition, and key fields can't be filtered
+    expect(() =>
+      buildKeyConditionQuery(
+        operation(q.eq(field.listId, 'list-1'), q.ne(field.id, 'a')),
+      ),
+    ).toThrow("Key attribute 'id' can only be constrained once");
+  });
+
+  it('rejects a key field constrained twice', () => {
+    expect(() =>
+      buildKeyConditionQuery(
+        operation(
+          q.eq(field.listId, 'list-1'),
+          q.gt(field.id, 'a'),
+          q.lt(field.id, 'm'),
+        ),
+      ),
+    ).toThrow("Key attribute 'id' can only be constrained once");
+  });
+
+  it('returns null when the partition key is not pinned', () => {
+    expect(buildKeyConditionQuery(operation(q.gt(field.id, 'a')))).toBeNull();
+    expect(
+      buildKeyConditionQuery(
+        operation(
+          q.or(q.eq(field.listId, 'list-1'), q.eq(field.listId, 'list-2')),
+        ),
+      ),
+    ).toBeNull();
+  });
+
+  it('uses the index keys when querying an index', () => {
+    const query = buildKeyConditionQuery({
+      ...operation(q.eq(field.ownerId, 'u1'), q.gte(field.dueAt, 100)),
+      indexName: 'gsi_by_owner',
+      indexPkField: 'ownerId',
+      indexSkField: 'dueAt',
+    });
+
+    expect(query?.keyConditionExpression).toBe('#n0 = :v0 AND #n1 >= :v1');
+    expect(query?.expressionAttributeNames).toEqual({
+      '#n0': 'ownerId',
+      '#n1': 'dueAt',
+    });
+  });
+});
+
+describe('buildScanFilter', () => {
+  it('joins every filter, including key conditions', () => {
+    expect(
+      buildScanFilter(
+        operation(
+          q.not(q.contains(field.title, 'Milk')),
+          q.gt(field.listId, 'list-1'),
+        ),
+      ),
+    ).toEqual({
+      filterExpression: 'NOT (contains(#n0, :v0)) AND #n1 > :v1',
+      expressionAttributeNames: { '#n0': 'title', '#n1': 'listId' },
+      expressionAttributeValues: { ':v0': 'Milk', ':v1': 'list-1' },
+    });
+  });
+
+  it('is empty without filters', () => {
+    expect(buildScanFilter(operation())).toEqual({});
+  });
+});
+
+describe('isPartitionKeyPinned', () => {
+  it('accepts equality, also inside and()', () => {
+    expect(isPartitionKeyPinned([q.eq(field.listId, 'a')], 'listId')).toBe(
+      true,
+    );
+    expect(
+      isPartitionKeyPinned(
+        [q.and(q.eq(field.title, 'x'), q.eq(field.listId, 'a'))],
+        'listId',
+      ),
+    ).toBe(true);
+  });
+
+  it('rejects other operators and or()', () => {
+    expect(isPartitionKeyPinned([q.gte(field.listId, 'a')], 'listId')).toBe(
+      false,
+    );
+    expect(
+      isPartitionKeyPinned(
+        [q.or(q.eq(field.listId, 'a'), q.eq(field.listId, 'b'))],
+        'listId',
+      ),
+    ).toBe(false);
+    expect(
+      isPartitionKeyPinned([q.not(q.eq(field.listId, 'a'))], 'listId'),
+    ).toBe(false);
+  });
+});
+
+describe('index resolution', () => {
+  it('uses the table keys when the table partition key is pinned', () => {
+    const op = builtOperation((query) =>
+      query.filter((f) => f.eq(field.listId, 'list-1')),
+    );
+
+    expect(op.indexName).toBeUndefined();
+    expect(op.sortField).toBe('id');
+  });
+
+  it('picks an index whose partition key is pinned', () => {
+    const op = builtOperation((query) =>
+      query.filter((f) => f.eq(field.ownerId, 'u1')),
+    );
+
+    expect(op).toMatchObject({
+      indexName: 'gsi_by_owner',
+      indexPkField: 'ownerId',
+      indexSkField: 'dueAt',
+      sortField: 'dueAt',
+    });
+  });
+
+  it('uses the index from useIndex() by key or by name', () => {
+    for (const name of ['byOwner', 'gsi_by_owner']) {
+      const op = builtOperation((query) =>
+        query.useIndex(name).filter((f) => f.eq(field.ownerId, 'u1')),
+      );
+      expect(op.indexName).toBe('gsi_by_owner');
+    }
+  });
+
+  it('rejects an unknown index', () => {
+    expect(() => builtOperation((query) => query.useIndex('missing'))).toThrow(
+      "Index 'missing' is not defined on table todos",
+    );
+  });
+
+  it('leaves unpinned queries unsorted, as scans', () => {
+    const op = builtOperation((query) =>
+      query.allowScan().filter((f) => f.eq(field.title, 'Milk')),
+    );
+
+    expect(op.indexName).toBeUndefined();
+    expect(op.sortField).toBeUndefined();
+    expect(op.allowScan).toBe(true);
+  });
+});
+
+describe('executeQueryOperation', () => {
+  /**
+   * A document client answering every command with a single empty page
+   */
+  function fakeDocClient() {
+    const send = vi.fn<(command: { input: object }) => Promise<object>>(
+      async () => ({ Items: [] }),
+    );
+    return { send, docClient: { send } as unknown as DynamoDBDocumentClient };
+  }
+
+  it('runs a key-condition Query when the partition key is pinned', async () => {
+    const { send, docClient } = fakeDocClient();
+
+    await executeQueryOperation(
+      docClient,
+      operation(q.eq(field.listId, 'list-1')),
+      { ascending: false, limit: 10 },
+    );
+
+    const [command] = send.mock.calls[0];
+    expect(command.constructor.name).toBe('QueryCommand');
+    expect(command.input).toMatchObject({
+      TableName: 'todos',
+      KeyConditionExpression: '#n0 = :v0',
+      ScanIndexForward: false,
+      Limit: 10,
+    });
+  });
+
+  it('scans only when allowed', async () => {
+    const { send, docClient } = fakeDocClient();
+
+    await executeQueryOperation(
+      docClient,
+      { ...operation(q.eq(field.title, 'Milk')), allowScan: true },
+      { ascending: true },
+    );
+
+    const [command] = send.mock.calls[0];
+    expect(command.constructor.name).toBe('ScanCommand');
+    expect(command.input).toMatchObject({ FilterExpression: '#n0 = :v0' });
+  });
+
+  it('raises BAD_REQUEST for an unpinned partition key', async () => {
+    const { send, docClient } = fakeDocClient();
+
+    const error = await executeQueryOperation(
+      docClient,
+      operation(q.eq(field.title, 'Milk')),
+      { ascending: true },
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ReactiveError);
+    expect(error).toMatchObject({ code: 'BAD_REQUEST' });
+    expect((error as Error).message).toContain("partition key 'listId'");
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest';
+
+import type { JsonPatch } from './core.js';
+import { applyPatches, generatePatches, type KeyedArray } from './server.js';
+
+interface Todo {
+  listId: string;
+  id: string;
+  title: string;
+}
+
+const keyedArrays: KeyedArray[] = [
+  { path: '/items', pkField: 'listId', skField: 'id' },
+];
+
+/**
+ * Todos with the given ids, titled after them
+ */
+function todos(...ids: string[]): Todo[] {
+  return ids.map((id) => ({ listId: 'list-1', id, title: `Todo ${id}` }));
+}
+
+/**
+ * Diff two lists of todos as a subscription's keyed query result
+ */
+function diff(before: Todo[], after: Todo[]): JsonPatch[] {
+  return generatePatches({ items: before }, { items: after }, keyedArrays);
+}
+
+/**
+ * Count the patches of each kind
+ */
+function countOps(patches: JsonPatch[]) {
+  const counts: Partial<Record<JsonPatch['op'], number>> = {};
+  for (const patch of patches) counts[patch.op] = (counts[patch.op] ?? 0) + 1;
+  return counts;
+}
+
+/**
+ * Length of the longest increasing subsequence, by dynamic programming
+ */
+function longestIncreasingLength(sequence: number[]): number {
+  const lengths = sequence.map(() => 1);
+  for (let i = 0; i < sequence.length; i++) {
+    for (let j = 0; j < i; j++) {
+      if (sequence[j] < sequence[i]) {
+        lengths[i] = Math.max(lengths[i], lengths[j] + 1);
+      }
+    }
+  }
+  return Math.max(0, ...lengths);
+}
+
+/**
+ * A seeded pseudo-random number generator, so failures reproduce
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 48271) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+describe('keyed array diff', () => {
+  it('adds a record inserted at the top with a single add', () => {
+    const before = todos('a', 'b', 'c');
+    const after = [...todos('z'), ...before];
+
+    expect(diff(before, after)).toEqual([
+      { op: 'add', path: '/items/0', value: after[0] },
+    ]);
+  });
+
+  it('removes records from the end first, so indexes stay valid', () => {
+    const before = todos('a', 'b', 'c', 'd');
+    const after = todos('a', 'c');
+
+    expect(diff(before, after)).toEqual([
+      { op: 'remove', path: '/items/3' },
+      { op: 'remove', path: '/items/1' },
+    ]);
+  });
+
+  it('moves a single reordered record', () => {
+    const before = todos('a', 'b', 'c', 'd');
+    const after = todos('d', 'a', 'b', 'c');
+
+    expect(diff(before, after)).toEqual([
+      { op: 'move', from: '/items/3', path: '/items/0' },
+    ]);
+  });
+
+  it('keeps the longest run in order and moves the rest', () => {
+    const before = todos('a', 'b', 'c', 'd', 'e');
+    const after = todos('e', 'd', 'c', 'b', 'a');
+    const patches = diff(before, after);
+
+    expect(countOps(patches)).toEqual({ move: 4 });
+    expect(applyPatches({ items: before }, patches)).toEqual({ items: after });
+  });
+
+  it('replaces only the changed fields of a kept record', () => {
+    const before = todos('a', 'b');
+    const after = [before[0], { ...before[1], title: 'Renamed' }];
+
+    expect(diff(before, after)).toEqual([
+      { op: 'replace', path: '/items/1/title', value: 'Renamed' },
+    ]);
+  });
+
+  it('diffs a changed record at its new index after a move', () => {
+    const before = todos('a', 'b', 'c');
+    const after = [{ ...before[2], title: 'Renamed' }, before[0], before[1]];
+
+    expect(diff(before, after)).toEqual([
+      { op: 'move', from: '/items/2', path: '/items/0' },
+      { op: 'replace', path: '/items/0/title', value: 'Renamed' },
+    ]);
+  });
+
+  it('moves only records outside the longest increasing run', () => {
+    const random = createRandom(7);
+
+    for (let round = 0; round < 200; round++) {
+      const ids = Array.from({ length: 12 }, (_, i) => `t${i}`);
+      const before = todos(...ids.filter(() => random() < 0.8));
+
+      // Drop some records, shuffle the rest, add new ones and rename a few
+      const kept = before.filter(() => random() < 0.8);
+      const shuffled = kept
+        .map((todo) => ({ todo, sort: random() }))
+        .sort((x, y) => x.sort - y.sort)
+        .map(({ todo }) =>
+          random() < 0.2 ? { ...todo, title: `${todo.title}!` } : todo,
+        );
+      const after = [...shuffled];
+      for (const id of ['n1', 'n2', 'n3']) {
+        if (random() < 0.5) {
+          after.splice(Math.floor(random() * (after.length + 1)), 0, {
+            listId: 'list-1',
+            id,
+            title: `Todo ${id}`,
+          });
+        }
+      }
+
+      const patches = diff(before, after);
+      expect(applyPatches({ items: before }, patches)).toEqual({
+        items: after,
+      });
+
+      // Kept records, by their order before the change
+      const keptOrder = shuffled.map(({ id }) =>
+        kept.findIndex((todo) => todo.id === id),
+      );
+      expect(countOps(patches).move ?? 0).toBe(
+        kept.length - longestIncreasingLength(keptOrder),
+      );
+      expect(countOps(patches).remove ?? 0).toBe(before.length - kept.length);
+      expect(countOps(patches).add ?? 0).toBe(after.length - kept.length);
+    }
+  });
+
+  it('diffs by position when records lack their key fields', () => {
+    const before = [{ title: 'a' }, { title: 'b' }];
+    const after = [{ title: 'z' }, { title: 'a' }, { title: 'b' }];
+    const patches = generatePatches(
+      { items: before },
+      { items: after },
+      keyedArrays,
+    );
+
+    expect(countOps(patches).move).toBeUndefined();
+    expect(applyPatches({ items: before }, patches)).toEqual({ items: after });
+  });
+
+  it('diffs by position when a key repeats', () => {
+    const before = todos('a', 'b');
+    const after = [...todos('a'), ...todos('a', 'b')];
+    const patches = diff(before, after);
+
+    expect(countOps(patches).move).toBeUndefined();
+    expect(applyPatches({ items: before }, patches)).toEqual({ items: after });
+  });
+
+  it('diffs a whole-document result array by key', () => {
+    const before = todos('a', 'b', 'c');
+    const after = todos('c', 'a', 'b');
+    const patches = generatePatches(before, after, [
+      { path: '', pkField: 'listId', skField: 'id' },
+    ]);
+
+    expect(patches).toEqual([{ op: 'move', from: '/2', path: '/0' }]);
+  });
+
+  it('replaces results that are not objects whole', () => {
+    expect(generatePatches(null, { id: 'a' })).toEqual([
+      { op: 'replace', path: '', value: { id: 'a' } },
+    ]);
+    expect(generatePatches({ id: 'a' }, null)).toEqual([
+      { op: 'replace', path: '', value: null },
+    ]);
+    expect(generatePatches(null, null)).toEqual([]);
+  });
+});
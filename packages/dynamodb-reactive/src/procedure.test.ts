@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import {
+  createInputError,
+  type DatabaseContext,
+  getHttpStatusCode,
+  initReactive,
+  ReactiveError,
+  toReactiveError,
+} from './server.js';
+
+interface Context {
+  userId?: string;
+}
+
+const t = initReactive<Context>();
+
+/**
+ * Context with a database the procedures under test never touch
+ */
+const ctx = { userId: 'u1', db: {} as DatabaseContext };
+
+describe('middleware', () => {
+  it('runs in the order it was added, around the resolver', async () => {
+    const calls: string[] = [];
+    const traced = (name: string) =>
+      t.middleware(async ({ next }) => {
+        calls.push(`${name} before`);
+        const result = await next();
+        calls.push(`${name} after`);
+        return result;
+      });
+
+    const router = t.router({
+      get: t.procedure
+        .use(traced('first'))
+        .use(traced('second'))
+        .query(() => {
+          calls.push('resolver');
+          return 'done';
+        }),
+    });
+
+    await expect(router.execute('get', ctx, undefined)).resolves.toBe('done');
+    expect(calls).toEqual([
+      'first before',
+      'second before',
+      'resolver',
+      'second after',
+      'first after',
+    ]);
+  });
+
+  it('merges the context passed to next() into later middleware and the resolver', async () => {
+    const router = t.router({
+      whoami: t.procedure
+        .use(({ next }) => next({ ctx: { role: 'admin' } }))
+        .use(({ ctx: { role }, next }) => next({ ctx: { label: `${role}!` } }))
+        .query(({ ctx: { userId, role, label } }) => ({ userId, role, label })),
+    });
+
+    await expect(router.execute('whoami', ctx, undefined)).resolves.toEqual({
+      userId: 'u1',
+      role: 'admin',
+      label: 'admin!',
+    });
+  });
+
+  it('is not shared between procedures built from the same base', async () => {
+    const calls: string[] = [];
+    const base = t.procedure.use(({ next }) => {
+      calls.push('base');
+      return next();
+    });
+    const router = t.router({
+      plain: base.query(() => 'plain'),
+      extended: base
+        .use(({ next }) => {
+          calls.push('extended');
+          return next();
+        })
+        .query(() => 'extended'),
+    });
+
+    await router.execute('plain', ctx, undefined);
+    await router.execute('extended', ctx, undefined);
+    expect(calls).toEqual(['base', 'base', 'extended']);
+  });
+
+  it('receives the raw input, path and type before input validation', async () => {
+    let seen: unknown;
+    const router = t.router({
+      todos: {
+        add: t.procedure
+          .input(z.object({ title: z.string() }))
+          .use(({ input, path, type, next }) => {
+            seen = { input, path, type };
+            return next();
+          })
+          .mutation(({ input }) => input.title),
+      },
+    });
+
+    const error = await router
+      .execute('todos.add', ctx, { title: 1 })
+      .catch((e: unknown) => e);
+
+    expect(seen).toEqual({
+      input: { title: 1 },
+      path: 'todos.add',
+      type: 'mutation',
+    });
+    expect(error).toBeInstanceOf(ReactiveError);
+    expect(error).toMatchObject({
+      code: 'BAD_REQUEST',
+      issues: [{ path: ['title'], code: 'invalid_type' }],
+    });
+  });
+
+  it('stops the chain when it throws', async () => {
+    let resolved = false;
+    const authed = t.procedure.use(({ ctx: { userId }, next }) => {
+      if (!userId) throw new ReactiveError({ code: 'UNAUTHORIZED' });
+      return next({ ctx: { userId } });
+    });
+    const router = t.router({
+      secret: authed.query(() => {
+        resolved = true;
+        return 'secret';
+      }),
+    });
+
+    await expect(
+      router.execute('secret', { ...ctx, userId: undefined }, undefined),
+    ).rejects.toMatchObject({ code: 'UNAUTHORIZED', message: 'UNAUTHORIZED' });
+    expect(resolved).toBe(false);
+  });
+});
+
+describe('error mapping', () => {
+  it('passes ReactiveErrors through', () => {
+    const error = new ReactiveError({ code: 'FORBIDDEN', message: 'Nope' });
+
+    expect(toReactiveError(error)).toBe(error);
+  });
+
+  it('maps failed conditional writes to CONFLICT', () => {
+    const cause = Object.assign(new Error('The conditional request failed'), {
+      name: 'ConditionalCheckFailedException',
+    });
+
+    expect(toReactiveError(cause)).toMatchObject({
+      code: 'CONFLICT',
+      message: 'Conflicting update',
+      cause,
+    });
+  });
+
+  it('hides the message of anything else behind INTERNAL', () => {
+    const cause = new Error('Table arn:aws:dynamodb:... not found');
+
+    expect(toReactiveError(cause)).toMatchObject({
+      code: 'INTERNAL',
+      message: 'Internal server error',
+      cause,
+    });
+    expect(toReactiveError('thrown string')).toMatchObject({
+      code: 'INTERNAL',
+    });
+  });
+
+  it('turns validation failures into BAD_REQUEST issues', () => {
+    const result = z
+      .object({ title: z.string().min(1) })
+      .safeParse({ title: '' });
+    const error = createInputError(result.error!, 'request');
+
+    expect(error.code).toBe('BAD_REQUEST');
+    expect(error.message).toMatch(/^Invalid request: /);
+    expect(error.issues).toEqual([
+      { path: ['title'], message: expect.any(String), code: 'too_small' },
+    ]);
+  });
+
+  it('has an HTTP status per code', () => {
+    expect(
+      (
+        [
+          'BAD_REQUEST',
+          'UNAUTHORIZED',
+          'FORBIDDEN',
+          'NOT_FOUND',
+          'CONFLICT',
+          'PAYLOAD_TOO_LARGE',
+          'INTERNAL',
+        ] as const
+      ).map(getHttpStatusCode),
+    ).toEqual([400, 401, 403, 404, 409, 413, 500]);
+  });
+});
+
+describe('output schema', () => {
+  const router = t.router({
+    todo: t.procedure
+      .output(
+        z.object({
+          id: z.string(),
+          dueAt: z.number().transform((ms) => new Date(ms)),
+        }),
+      )
+      .query(() => ({ id: 'a', dueAt: 0, ownerSecret: 'hidden' })),
+    broken: t.procedure
+      .output(z.object({ id: z.string() }))
+      .query(() => ({ id: 1 }) as unknown as { id: string }),
+    untyped: t.procedure.query(() => ({ id: 'a', extra: true })),
+  });
+
+  it('strips and transforms the result', async () => {
+    await expect(router.execute('todo', ctx, undefined)).resolves.toEqual({
+      id: 'a',
+      dueAt: new Date(0),
+    });
+  });
+
+  it('returns the raw result when validation is deferred', async () => {
+    const raw = await router.execute('todo', ctx, undefined, {
+      validateOutput: false,
+    });
+
+    expect(raw).toEqual({ id: 'a', dueAt: 0, ownerSecret: 'hidden' });
+    expect(router.parseOutput('todo', raw)).toEqual({
+      id: 'a',
+      dueAt: new Date(0),
+    });
+  });
+
+  it('keeps the details of a mismatch on the server', async () => {
+    const error = await router
+      .execute('broken', ctx, undefined)
+      .catch((e: unknown) => e);
+
+    expect(error).toMatchObject({
+      code: 'INTERNAL',
+      message: 'Procedure output does not match its output schema',
+      issues: undefined,
+      cause: expect.any(z.ZodError),
+    });
+  });
+
+  it('leaves results of procedures without one unchanged', async () => {
+    await expect(router.execute('untyped', ctx, undefined)).resolves.toEqual({
+      id: 'a',
+      extra: true,
+    });
+    expect(router.hasOutputSchema('todo')).toBe(true);
+    expect(router.hasOutputSchema('untyped')).toBe(false);
+  });
+});
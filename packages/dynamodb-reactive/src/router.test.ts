@@ -0,0 +1,93 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { DynamoTable } from './core.js';
+import { initReactive, ReactiveError } from './server.js';
+
+const TodoTable = new DynamoTable({
+  tableName: 'todos',
+  schema: z.object({ id: z.string(), title: z.string() }),
+  pk: 'id',
+});
+
+const t = initReactive<{ userId: string }>();
+
+const appRouter = t.router({
+  whoami: t.procedure.query(({ ctx }) => ctx.userId),
+  todos: {
+    get: t.procedure
+      .input(z.object({ id: z.string() }))
+      .query(({ ctx, input }) => ctx.db.get(TodoTable, { id: input.id })),
+    count: t.procedure
+      .input(z.object({ max: z.number() }).optional())
+      .use(({ next }) => next({ ctx: { scale: 10 } }))
+      .output(z.object({ count: z.number() }))
+      .query(({ ctx, input }) => ({
+        count: Math.min(ctx.scale, input?.max ?? Infinity),
+        internal: true,
+      })),
+  },
+});
+
+/**
+ * A DynamoDB client whose HTTP handler answers every request with the
+ * given response body, recording the request bodies instead of sending them
+ */
+function createStubClient(body: Record<string, unknown>) {
+  const requests: unknown[] = [];
+  const client = new DynamoDBClient({
+    region: 'us-east-1',
+    credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    requestHandler: {
+      handle: async (request: { body: string }) => {
+        requests.push(JSON.parse(request.body));
+        return {
+          response: {
+            statusCode: 200,
+            headers: {},
+            body: new TextEncoder().encode(JSON.stringify(body)),
+          },
+        };
+      },
+    },
+  });
+  return { client, requests };
+}
+
+describe('createCaller', () => {
+  it('mirrors the router and runs procedures with the given context', async () => {
+    const caller = appRouter.createCaller({ userId: 'u1' });
+
+    await expect(caller.whoami()).resolves.toBe('u1');
+    expect(Object.keys(caller.todos)).toEqual(['get', 'count']);
+  });
+
+  it('runs middleware and validates input and output', async () => {
+    const caller = appRouter.createCaller({ userId: 'u1' });
+
+    await expect(caller.todos.count()).resolves.toEqual({ count: 10 });
+    await expect(caller.todos.count({ max: 3 })).resolves.toEqual({
+      count: 3,
+    });
+    await expect(
+      caller.todos.count({ max: 'many' } as unknown as { max: number }),
+    ).rejects.toBeInstanceOf(ReactiveError);
+  });
+
+  it('uses the database configuration it is given', async () => {
+    const { client, requests } = createStubClient({
+      Item: { id: { S: 'a' }, title: { S: 'Milk' } },
+    });
+    const caller = appRouter.createCaller(
+      { userId: 'u1' },
+      { dbConfig: { client } },
+    );
+
+    await expect(caller.todos.get({ id: 'a' })).resolves.toEqual({
+      id: 'a',
+      title: 'Milk',
+    });
+    expect(requests).toEqual([{ TableName: 'todos', Key: { id: { S: 'a' } } }]);
+  });
+});
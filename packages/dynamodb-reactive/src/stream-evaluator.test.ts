@@ -0,0 +1,275 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import {
+  applyItemChanges,
+  applyRecordChanges,
+} from '../../server/src/stream-evaluator.js';
+import { DynamoTable, type QueryMetadata } from './core.js';
+import { createFilterBuilder, operationToQueryMetadata } from './server.js';
+
+const TodoTable = new DynamoTable({
+  tableName: 'todos',
+  schema: z.object({
+    listId: z.string(),
+    rank: z.number(),
+    title: z.string(),
+    done: z.boolean(),
+  }),
+  pk: 'listId',
+  sk: 'rank',
+});
+
+type Todo = z.infer<typeof TodoTable.schema>;
+
+const q = createFilterBuilder<typeof TodoTable>();
+
+/**
+ * Metadata of a query for list-1's open todos, ordered by rank, as stored
+ * for a subscription
+ */
+function listQuery(
+  options: Partial<
+    Pick<
+      QueryMetadata,
+      'sortField' | 'sortOrder' | 'limit' | 'startKey' | 'paged' | 'endKey'
+    >
+  > = {},
+): QueryMetadata {
+  return operationToQueryMetadata({
+    tableName: TodoTable.tableName,
+    pkField: 'listId',
+    skField: 'rank',
+    filters: [
+      q.eq(TodoTable.field.listId, 'list-1'),
+      q.eq(TodoTable.field.done, false),
+    ],
+    sortField: 'rank',
+    sortOrder: 'asc',
+    ...options,
+  });
+}
+
+/**
+ * Todos of list-1 with the given ranks
+ */
+function todos(...ranks: number[]): Todo[] {
+  return ranks.map((rank) => ({
+    listId: 'list-1',
+    rank,
+    title: `Todo ${rank}`,
+    done: false,
+  }));
+}
+
+const insert = (todo: Todo) => ({
+  tableName: TodoTable.tableName,
+  oldImage: null,
+  newImage: todo,
+});
+const modify = (before: Todo, after: Todo) => ({
+  tableName: TodoTable.tableName,
+  oldImage: before,
+  newImage: after,
+});
+const remove = (todo: Todo) => ({
+  tableName: TodoTable.tableName,
+  oldImage: todo,
+  newImage: null,
+});
+
+describe('applyRecordChanges', () => {
+  it('inserts matching records in sort order', () => {
+    const [added] = todos(2);
+
+    expect(
+      applyRecordChanges(todos(1, 3), listQuery(), [insert(added)]),
+    ).toEqual({ requiresRequery: false, result: todos(1, 2, 3) });
+  });
+
+  it('ignores records that do not match the filters or the table', () => {
+    const other = { ...todos(2)[0], listId: 'list-2' };
+    const changes = [
+      insert(other),
+      { ...insert(todos(2)[0]), tableName: 'other-table' },
+    ];
+
+    expect(applyRecordChanges(todos(1, 3), listQuery(), changes)).toEqual({
+      requiresRequery: false,
+      result: todos(1, 3),
+    });
+  });
+
+  it('replaces modified records and drops those that stop matching', () => {
+    const [first, second] = todos(1, 2);
+    const renamed = { ...first, title: 'Renamed' };
+    const completed = { ...second, done: true };
+
+    expect(
+      applyRecordChanges([first, second], listQuery(), [
+        modify(first, renamed),
+        modify(second, completed),
+      ]),
+    ).toEqual({ requiresRequery: false, result: [renamed] });
+  });
+
+  it('removes deleted records', () => {
+    const items = todos(1, 2, 3);
+
+    expect(applyRecordChanges(items, listQuery(), [remove(items[1])])).toEqual({
+      requiresRequery: false,
+      result: todos(1, 3),
+    });
+  });
+
+  it('applies changes in stream order', () => {
+    const [added] = todos(2);
+    const renamed = { ...added, title: 'Renamed' };
+
+    expect(
+      applyRecordChanges(todos(1), listQuery(), [
+        insert(added),
+        modify(added, renamed),
+        remove(renamed),
+        insert(renamed),
+      ]),
+    ).toEqual({ requiresRequery: false, result: [todos(1)[0], renamed] });
+  });
+
+  it('sorts descending windows from the end', () => {
+    const [added] = todos(5);
+
+    expect(
+      applyRecordChanges(todos(4, 2), listQuery({ sortOrder: 'desc' }), [
+        insert(added),
+      ]),
+    ).toEqual({ requiresRequery: false, result: todos(5, 4, 2) });
+  });
+
+  describe('limited windows', () => {
+    const limited = listQuery({ limit: 3 });
+
+    it('fills a window that is not full', () => {
+      expect(
+        applyRecordChanges(todos(1, 2), limited, [insert(todos(5)[0])]),
+      ).toEqual({ requiresRequery: false, result: todos(1, 2, 5) });
+    });
+
+    it('drops the last record when one is inserted before it', () => {
+      expect(
+        applyRecordChanges(todos(1, 3, 5), limited, [insert(todos(2)[0])]),
+      ).toEqual({ requiresRequery: false, result: todos(1, 2, 3) });
+    });
+
+    it('ignores records inserted after the last one', () => {
+      expect(
+        applyRecordChanges(todos(1, 3, 5), limited, [insert(todos(9)[0])]),
+      ).toEqual({ requiresRequery: false, result: todos(1, 3, 5) });
+    });
+
+    it('re-queries when a removal leaves a gap it cannot refill', () => {
+      const items = todos(1, 3, 5);
+
+      expect(applyRecordChanges(items, limited, [remove(items[0])])).toEqual({
+        requiresRequery: true,
+      });
+    });
+
+    it('re-queries when the last record sorts past the old boundary', () => {
+      const items = todos(1, 3, 5);
+      const later = { ...items[2], rank: 7 };
+
+      // A record never loaded (e.g. rank 6) may now belong in the window
+      expect(
+        applyRecordChanges(items, limited, [remove(items[2]), insert(later)]),
+      ).toEqual({ requiresRequery: true });
+    });
+
+    it('re-queries unsorted windows whose membership changes', () => {
+      const unsorted = listQuery({ sortField: undefined, limit: 3 });
+
+      expect(
+        applyRecordChanges(todos(1, 3), unsorted, [insert(todos(2)[0])]),
+      ).toEqual({ requiresRequery: true });
+      expect(
+        applyRecordChanges(todos(1, 3), listQuery({ sortField: undefined }), [
+          insert(todos(2)[0]),
+        ]),
+      ).toEqual({ requiresRequery: false, result: todos(1, 3, 2) });
+    });
+  });
+
+  describe('live pages', () => {
+    const page = listQuery({
+      limit: 3,
+      paged: true,
+      startKey: { listId: 'list-1', rank: 2 },
+      endKey: { listId: 'list-1', rank: 8 },
+    });
+
+    it('keeps records between the start and end keys without truncating', () => {
+      expect(
+        applyRecordChanges(todos(4, 6, 8), page, [insert(todos(5)[0])]),
+      ).toEqual({ requiresRequery: false, result: todos(4, 5, 6, 8) });
+    });
+
+    it('leaves records of other pages out', () => {
+      expect(
+        applyRecordChanges(todos(4, 6, 8), page, [
+          insert(todos(2)[0]),
+          insert(todos(9)[0]),
+        ]),
+      ).toEqual({ requiresRequery: false, result: todos(4, 6, 8) });
+    });
+
+    it('shrinks when a record is removed rather than pulling one in', () => {
+      const items = todos(4, 6, 8);
+
+      expect(applyRecordChanges(items, page, [remove(items[0])])).toEqual({
+        requiresRequery: false,
+        result: todos(6, 8),
+      });
+    });
+  });
+
+  it('re-queries results stored without key fields', () => {
+    const metadata = { ...listQuery(), pkField: undefined };
+
+    expect(
+      applyRecordChanges(todos(1), metadata, [insert(todos(2)[0])]),
+    ).toEqual({ requiresRequery: true });
+  });
+});
+
+describe('applyItemChanges', () => {
+  const [item] = todos(1);
+  const lookup = operationToQueryMetadata({
+    type: 'get',
+    tableName: TodoTable.tableName,
+    pkField: 'listId',
+    skField: 'rank',
+    filters: [
+      q.eq(TodoTable.field.listId, 'list-1'),
+      q.eq(TodoTable.field.rank, 1),
+    ],
+  });
+
+  it('takes the latest image of the item', () => {
+    const renamed = { ...item, title: 'Renamed' };
+
+    expect(applyItemChanges(item, lookup, [modify(item, renamed)])).toEqual(
+      renamed,
+    );
+  });
+
+  it('becomes null once the item is deleted, and picks up a new one', () => {
+    expect(applyItemChanges(item, lookup, [remove(item)])).toBeNull();
+    expect(applyItemChanges(null, lookup, [insert(item)])).toEqual(item);
+  });
+
+  it('ignores other items', () => {
+    const [other] = todos(2);
+
+    expect(applyItemChanges(item, lookup, [insert(other)])).toEqual(item);
+  });
+});
@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'node:url';
+
+import { defineConfig } from 'vitest/config';
+
+const resolve = (path: string) => fileURLToPath(new URL(path, import.meta.url));
+
+// Test the workspace packages from source, as tsup bundles them
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@dynamodb-reactive/core': resolve('../core/src/index.ts'),
+      '@dynamodb-reactive/client/react': resolve('../client/src/react.tsx'),
+      '@dynamodb-reactive/client': resolve('../client/src/index.ts'),
+      '@dynamodb-reactive/server': resolve('../server/src/index.ts'),
+      '@dynamodb-reactive/infra': resolve('../infra/src/index.ts'),
+    },
+  },
+});
@@ -27,6 +27,14 @@ export interface ReactiveEngineProps {
    */
   tables: AnyDynamoTable[];
 
+  /**
+   * Path to a module whose default export is the createReactiveHarness
+   * output. It is bundled into the handlers so the WebSocket message
+   * handler can execute subscribe and call requests.
+   * @default - subscribe and call must be served by an app API route
+   */
+  harness?: string;
+
   /**
    * Prefix for all resource names
    * @default - no prefix
@@ -114,9 +122,11 @@ export class ReactiveEngine extends Construct {
     this.webSocketUrl = this.webSocketStage.url;
     this.callbackUrl = this.webSocketStage.callbackUrl;
 
-    // Generate the entry point file (no user code required)
+    // Generate the entry point file (bundles the harness, if given)
     // Write to cdk.out directory to avoid path resolution issues with temp directories
-    const entryPointCode = generateEntryPointCode();
+    const entryPointCode = generateEntryPointCode(
+      props.harness && path.resolve(props.harness),
+    );
     const cdkOutDir = path.join(process.cwd(), 'cdk.out', '.generated');
     fs.mkdirSync(cdkOutDir, { recursive: true });
     const entryPointPath = path.join(
@@ -198,11 +208,16 @@ export class ReactiveEngine extends Construct {
       this.disconnectHandler,
     );
     this.systemTables.connectionsTable.grantReadWriteData(this.messageHandler);
-    this.systemTables.connectionsTable.grantReadData(this.streamHandler);
+    // The stream handler tears down connections that are gone
+    this.systemTables.connectionsTable.grantReadWriteData(this.streamHandler);
 
+    this.systemTables.dependenciesTable.grantReadWriteData(
+      this.disconnectHandler,
+    );
     this.systemTables.dependenciesTable.grantReadWriteData(this.messageHandler);
     this.systemTables.dependenciesTable.grantReadWriteData(this.streamHandler);
 
+    this.systemTables.queriesTable.grantReadWriteData(this.disconnectHandler);
     this.systemTables.queriesTable.grantReadWriteData(this.messageHandler);
     this.systemTables.queriesTable.grantReadWriteData(this.streamHandler);
 
@@ -314,6 +329,13 @@ export class ReactiveEngine extends Construct {
       startingPosition: lambda.StartingPosition.TRIM_HORIZON,
       batchSize: 100,
       maxBatchingWindow: cdk.Duration.seconds(5),
+      // Retry only the records the handler reports as failed, and split
+      // batches whose invocation fails as a whole. Bounded like
+      // DynamoDBStreamSource, so a failing record can't block its shard.
+      reportBatchItemFailures: true,
+      bisectBatchOnError: true,
+      retryAttempts: 3,
+      maxRecordAge: cdk.Duration.days(1),
     });
   }
 }
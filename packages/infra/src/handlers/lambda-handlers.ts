@@ -1,21 +1,41 @@
 /**
  * Entry point code generator for the reactive Lambda handlers.
  *
- * No user code is imported - the handlers use only environment variables
- * and stored query metadata for all operations.
+ * The only user code imported is the optional harness, which supplies the
+ * router for subscribe and call messages. Everything else uses environment
+ * variables and stored query metadata.
  */
 
 /**
  * Generate the entry point code for Lambda functions.
  * This is called by the CDK construct to create the bundled entry file.
+ *
+ * @param harnessPath - Absolute path of a module whose default export is the
+ * createReactiveHarness output
  */
-export function generateEntryPointCode(): string {
-  return `// Auto-generated entry point for reactive Lambda handlers
+export function generateEntryPointCode(harnessPath?: string): string {
+  if (!harnessPath) {
+    return `// Auto-generated entry point for reactive Lambda handlers
 // No user code required - all configuration comes from environment variables
 import { createLambdaHandlers } from 'dynamodb-reactive/server';
 
 const handlers = createLambdaHandlers();
 
+export const connectHandler = handlers.connectHandler;
+export const disconnectHandler = handlers.disconnectHandler;
+export const messageHandler = handlers.messageHandler;
+export const streamHandler = handlers.streamHandler;
+`;
+  }
+
+  return `// Auto-generated entry point for reactive Lambda handlers
+// Table configuration comes from environment variables; the harness
+// supplies the router for subscribe and call messages
+import { createLambdaHandlers } from 'dynamodb-reactive/server';
+import harness from ${JSON.stringify(harnessPath)};
+
+const handlers = createLambdaHandlers(harness);
+
 export const connectHandler = handlers.connectHandler;
 export const disconnectHandler = handlers.disconnectHandler;
 export const messageHandler = handlers.messageHandler;
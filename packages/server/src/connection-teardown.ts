@@ -0,0 +1,161 @@
+import {
+  BatchWriteCommand,
+  DeleteCommand,
+  type DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  type QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+
+/**
+ * Maximum number of requests in a BatchWriteItem call
+ */
+const BATCH_WRITE_LIMIT = 25;
+
+/**
+ * Attempts at writing a batch's unprocessed items before giving up
+ */
+const MAX_BATCH_ATTEMPTS = 5;
+
+/**
+ * Names of the system tables a connection has entries in
+ */
+export interface ConnectionTables {
+  connectionsTable: string;
+  queriesTable: string;
+  dependenciesTable: string;
+}
+
+/**
+ * Query every page and return the primary keys of the items
+ */
+async function queryKeys(
+  docClient: DynamoDBDocumentClient,
+  input: QueryCommandInput,
+): Promise<Record<string, unknown>[]> {
+  const keys: Record<string, unknown>[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const response = await docClient.send(
+      new QueryCommand({ ...input, ExclusiveStartKey: exclusiveStartKey }),
+    );
+    for (const item of response.Items ?? []) {
+      keys.push({ pk: item.pk, sk: item.sk });
+    }
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return keys;
+}
+
+/**
+ * Delete items by key in batches, retrying unprocessed items with backoff
+ */
+async function batchDelete(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  keys: Record<string, unknown>[],
+): Promise<void> {
+  for (let i = 0; i < keys.length; i += BATCH_WRITE_LIMIT) {
+    let requests = keys
+      .slice(i, i + BATCH_WRITE_LIMIT)
+      .map((key) => ({ DeleteRequest: { Key: key } }));
+
+    for (let attempt = 0; requests.length > 0; attempt++) {
+      if (attempt === MAX_BATCH_ATTEMPTS) {
+        throw new Error(
+          `Failed to delete ${requests.length} items from ${tableName}`,
+        );
+      }
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+      }
+
+      const response = await docClient.send(
+        new BatchWriteCommand({ RequestItems: { [tableName]: requests } }),
+      );
+      requests = (response.UnprocessedItems?.[tableName] ?? []) as Array<{
+        DeleteRequest: { Key: Record<string, unknown> };
+      }>;
+    }
+  }
+}
+
+/**
+ * Delete a connection and everything stored for it: its subscriptions in
+ * the queries table and their entries in the dependencies table (found via
+ * the byConnectionId index).
+ */
+export async function teardownConnection(
+  docClient: DynamoDBDocumentClient,
+  tables: ConnectionTables,
+  connectionId: string,
+): Promise<void> {
+  const [queryKeysToDelete, dependencyKeysToDelete] = await Promise.all([
+    queryKeys(docClient, {
+      TableName: tables.queriesTable,
+      KeyConditionExpression: 'pk = :cid',
+      ExpressionAttributeValues: { ':cid': connectionId },
+      ProjectionExpression: 'pk, sk',
+    }),
+    queryKeys(docClient, {
+      TableName: tables.dependenciesTable,
+      IndexName: 'byConnectionId',
+      KeyConditionExpression: 'connectionId = :cid',
+      ExpressionAttributeValues: { ':cid': connectionId },
+    }),
+  ]);
+
+  // Dependencies first, so the stream handler stops matching the connection
+  await batchDelete(
+    docClient,
+    tables.dependenciesTable,
+    dependencyKeysToDelete,
+  );
+  await batchDelete(docClient, tables.queriesTable, queryKeysToDelete);
+
+  await docClient.send(
+    new DeleteCommand({
+      TableName: tables.connectionsTable,
+      Key: { connectionId },
+    }),
+  );
+}
+
+/**
+ * Delete a subscription and its entries in the dependencies table
+ */
+export async function teardownSubscription(
+  docClient: DynamoDBDocumentClient,
+  tables: Omit<ConnectionTables, 'connectionsTable'>,
+  connectionId: string,
+  subscriptionId: string,
+): Promise<void> {
+  // Get the subscription to find its dependencies
+  const subResponse = await docClient.send(
+    new GetCommand({
+      TableName: tables.queriesTable,
+      Key: { pk: connectionId, sk: subscriptionId },
+      ProjectionExpression: 'dependencies',
+    }),
+  );
+
+  const dependencies = (subResponse.Item?.dependencies ?? []) as string[];
+  await batchDelete(
+    docClient,
+    tables.dependenciesTable,
+    dependencies.map((key) => ({
+      pk: key,
+      sk: `${connectionId}#${subscriptionId}`,
+    })),
+  );
+
+  // Delete the subscription
+  await docClient.send(
+    new DeleteCommand({
+      TableName: tables.queriesTable,
+      Key: { pk: connectionId, sk: subscriptionId },
+    }),
+  );
+}
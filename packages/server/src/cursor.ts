@@ -0,0 +1,30 @@
+import type { QueryCursor } from '@dynamodb-reactive/core';
+
+import { ReactiveError } from './errors.js';
+
+/**
+ * Encode a DynamoDB LastEvaluatedKey as an opaque cursor
+ */
+export function encodeCursor(key: Record<string, unknown>): QueryCursor {
+  return Buffer.from(JSON.stringify(key)).toString('base64url') as QueryCursor;
+}
+
+/**
+ * Decode a cursor back into an ExclusiveStartKey
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const key: unknown = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (typeof key === 'object' && key !== null && !Array.isArray(key)) {
+      return key as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ReactiveError({
+    code: 'BAD_REQUEST',
+    message: 'Invalid query cursor',
+  });
+}
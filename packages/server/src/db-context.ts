@@ -1,23 +1,25 @@
-import {
-  type AttributeValue,
-  DynamoDBClient,
-  ExecuteStatementCommand,
-} from '@aws-sdk/client-dynamodb';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import {
   DeleteCommand,
   DynamoDBDocumentClient,
   GetCommand,
   PutCommand,
+  QueryCommand,
+  ScanCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
-import { unmarshall } from '@aws-sdk/util-dynamodb';
 
 import type { DependencyTracker } from './dependency-extractor.js';
+import { ReactiveError } from './errors.js';
+import {
+  buildKeyConditionQuery,
+  buildScanFilter,
+} from './key-condition-builder.js';
 import {
-  buildSelectStatement,
-  type PartiQLStatement,
-} from './partiql-builder.js';
-import { QueryBuilderImpl } from './query-builder.js';
+  QueryBuilderImpl,
+  type QueryExecutionResult,
+  type QueryOptions,
+} from './query-builder.js';
 import type {
   AnyDynamoTable,
   DatabaseContext,
@@ -58,43 +60,71 @@ function createDocClient(config: DbContextConfig): DynamoDBDocumentClient {
 }
 
 /**
- * Convert a JavaScript value to a DynamoDB AttributeValue
+ * Execute a query operation.
+ * Uses a native Query when the filters pin the partition key of the table
+ * or index; anything else is only run as a scan if explicitly allowed.
  */
-function toAttributeValue(value: unknown): AttributeValue {
-  if (typeof value === 'string') return { S: value };
-  if (typeof value === 'number') return { N: String(value) };
-  if (typeof value === 'boolean') return { BOOL: value };
-  if (value === null || value === undefined) return { NULL: true };
-  if (Array.isArray(value)) {
-    return { L: value.map(toAttributeValue) };
-  }
-  if (typeof value === 'object') {
-    const m: Record<string, AttributeValue> = {};
-    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
-      m[k] = toAttributeValue(v);
-    }
-    return { M: m };
+export async function executeQueryOperation(
+  docClient: DynamoDBDocumentClient,
+  operation: TrackedQueryOperation,
+  options: QueryOptions,
+): Promise<QueryExecutionResult<Record<string, unknown>>> {
+  const keyQuery = buildKeyConditionQuery(operation);
+
+  if (!keyQuery && !operation.allowScan) {
+    const pkField = operation.indexName
+      ? operation.indexPkField
+      : operation.pkField;
+    throw new ReactiveError({
+      code: 'BAD_REQUEST',
+      message:
+        `Query on ${operation.tableName} does not pin the partition key '${pkField}' with an equality filter. ` +
+        'Add one (or use an index whose partition key is pinned), or call allowScan() to opt in to a scan.',
+    });
   }
-  return { S: String(value) };
-}
 
-/**
- * Execute a PartiQL statement
- */
-async function executePartiQL(
-  docClient: DynamoDBDocumentClient,
-  statement: PartiQLStatement,
-): Promise<Record<string, unknown>[]> {
-  const command = new ExecuteStatementCommand({
-    Statement: statement.statement,
-    Parameters: statement.parameters.map(toAttributeValue),
-  });
+  const scanFilter = keyQuery ? null : buildScanFilter(operation);
+  const items: Record<string, unknown>[] = [];
+  let exclusiveStartKey = options.startKey;
+
+  // Limit applies before the filter expression, so keep paging until filled.
+  // Never over-fetch, so LastEvaluatedKey always points at the last item returned.
+  do {
+    const limit = options.limit ? options.limit - items.length : undefined;
+    const response = keyQuery
+      ? await docClient.send(
+          new QueryCommand({
+            TableName: operation.tableName,
+            IndexName: operation.indexName,
+            KeyConditionExpression: keyQuery.keyConditionExpression,
+            FilterExpression: keyQuery.filterExpression,
+            ExpressionAttributeNames: keyQuery.expressionAttributeNames,
+            ExpressionAttributeValues: keyQuery.expressionAttributeValues,
+            ScanIndexForward: options.ascending,
+            Limit: limit,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        )
+      : await docClient.send(
+          new ScanCommand({
+            TableName: operation.tableName,
+            IndexName: operation.indexName,
+            FilterExpression: scanFilter!.filterExpression,
+            ExpressionAttributeNames: scanFilter!.expressionAttributeNames,
+            ExpressionAttributeValues: scanFilter!.expressionAttributeValues,
+            Limit: limit,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
 
-  const response = await docClient.send(command);
-  // Unmarshall the DynamoDB AttributeValue format to plain JavaScript objects
-  return (response.Items ?? []).map((item) =>
-    unmarshall(item as Record<string, AttributeValue>),
+    items.push(...(response.Items ?? []));
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (
+    exclusiveStartKey &&
+    (!options.limit || items.length < options.limit)
   );
+
+  return { items, lastEvaluatedKey: exclusiveStartKey };
 }
 
 /**
@@ -111,22 +141,26 @@ export function createDbContext(
    */
   async function executeQuery<TTable extends AnyDynamoTable>(
     operation: TrackedQueryOperation,
-    options: {
-      limit?: number;
-      startKey?: Record<string, unknown>;
-      ascending: boolean;
-    },
-  ): Promise<TableItem<TTable>[]> {
-    const statement = buildSelectStatement(operation);
-
-    const items = await executePartiQL(docClient, statement);
+    options: QueryOptions,
+  ): Promise<QueryExecutionResult<TableItem<TTable>>> {
+    const result = await executeQueryOperation(docClient, operation, options);
+    return result as QueryExecutionResult<TableItem<TTable>>;
+  }
 
-    // Apply limit client-side if needed (PartiQL doesn't support LIMIT directly)
-    if (options.limit && items.length > options.limit) {
-      return items.slice(0, options.limit) as TableItem<TTable>[];
-    }
+  /**
+   * Get a single item by its primary key
+   */
+  async function getItem<TTable extends AnyDynamoTable>(
+    table: TTable,
+    key: TableKeyInput<TTable>,
+  ): Promise<TableItem<TTable> | null> {
+    const command = new GetCommand({
+      TableName: table.tableName,
+      Key: key as Record<string, unknown>,
+    });
 
-    return items as TableItem<TTable>[];
+    const response = await docClient.send(command);
+    return (response.Item as TableItem<TTable>) ?? null;
   }
 
   return {
@@ -142,13 +176,26 @@ export function createDbContext(
       table: TTable,
       key: TableKeyInput<TTable>,
     ): Promise<TableItem<TTable> | null> {
-      const command = new GetCommand({
-        TableName: table.tableName,
-        Key: key as Record<string, unknown>,
-      });
+      const item = await getItem(table, key);
 
-      const response = await docClient.send(command);
-      return (response.Item as TableItem<TTable>) ?? null;
+      // Track the lookup so subscriptions update when the item changes
+      dependencyTracker?.track(
+        {
+          type: 'get',
+          tableName: table.tableName,
+          filters: Object.entries(key).map(([field, value]) => ({
+            type: 'comparison',
+            operator: '=',
+            field,
+            value,
+          })),
+          pkField: table.pk,
+          skField: table.sk,
+        },
+        item,
+      );
+
+      return item;
     },
 
     async put<TTable extends AnyDynamoTable>(
@@ -202,9 +249,12 @@ export function createDbContext(
 
       if (updateExpressions.length === 0) {
         // No updates, just return the current item
-        const current = await this.get(table, key);
+        const current = await getItem(table, key);
         if (!current) {
-          throw new Error('Item not found');
+          throw new ReactiveError({
+            code: 'NOT_FOUND',
+            message: 'Item not found',
+          });
         }
         return current;
       }
@@ -1,11 +1,66 @@
 import type { QueryMetadata } from '@dynamodb-reactive/core';
 
+import { findValuePath } from './patcher.js';
 import type {
   FilterCondition,
   QueryDependency,
   TrackedQueryOperation,
+  WatchedFields,
 } from './types.js';
 
+/**
+ * Field name and value of a table-wide dependency, keyed "TableName#*"
+ */
+const TABLE_WILDCARD = '*';
+
+/**
+ * Marks a begins_with dependency's field value
+ */
+const PREFIX = 'prefix:';
+
+/**
+ * Field name of a table's watched-fields entries, keyed "TableName#@fields".
+ * There is one entry per watched field (and per prefix length its
+ * begins_with conditions use), shared by every subscription watching it,
+ * so a change only produces keys that some subscription can match.
+ */
+const WATCHED_FIELDS = '@fields';
+
+/**
+ * Field value of a range watcher dependency. Range predicates can't be
+ * keyed by value, so one entry per field is matched against every change
+ * to that field and filtered by evaluating its condition.
+ */
+const RANGE_WATCHER = 'range:*';
+
+/**
+ * Create a range watcher dependency on a field for a condition
+ */
+function rangeWatcher(
+  tableName: string,
+  field: string,
+  condition: FilterCondition,
+  indexName?: string,
+): QueryDependency {
+  return {
+    tableName,
+    fieldName: field,
+    fieldValue: RANGE_WATCHER,
+    indexName,
+    condition: mapOperators([condition], OPERATOR_NAMES)[0],
+  };
+}
+
+/**
+ * Collect every field referenced by a condition
+ */
+function collectFields(condition: FilterCondition, fields: Set<string>): void {
+  if (condition.field) fields.add(condition.field);
+  for (const sub of condition.conditions ?? []) {
+    collectFields(sub, fields);
+  }
+}
+
 /**
  * Extracts dependencies from a filter condition
  */
@@ -18,48 +73,72 @@ function extractFromCondition(
 
   switch (condition.type) {
     case 'comparison': {
-      // Only extract equality conditions as dependencies
-      // These are the ones we can efficiently track
-      if (
-        condition.operator === '=' &&
-        condition.field &&
-        condition.value !== undefined
-      ) {
+      if (!condition.field || condition.value === undefined) break;
+
+      // Equality conditions are tracked by value
+      if (condition.operator === '=') {
         dependencies.push({
           tableName,
           fieldName: condition.field,
           fieldValue: String(condition.value),
           indexName,
         });
+      } else {
+        dependencies.push(
+          rangeWatcher(tableName, condition.field, condition, indexName),
+        );
       }
       break;
     }
 
     case 'function': {
+      if (!condition.field || !condition.value) break;
+
       // For begins_with, we can track the prefix as a dependency
-      if (
-        condition.operator === 'begins_with' &&
-        condition.field &&
-        condition.value
-      ) {
+      if (condition.operator === 'begins_with') {
         dependencies.push({
           tableName,
           fieldName: condition.field,
-          fieldValue: `prefix:${String(condition.value)}`,
+          fieldValue: `${PREFIX}${String(condition.value)}`,
           indexName,
         });
+      } else {
+        dependencies.push(
+          rangeWatcher(tableName, condition.field, condition, indexName),
+        );
       }
       break;
     }
 
     case 'logical': {
-      // Recursively extract from logical conditions
-      if (condition.conditions) {
-        for (const subCondition of condition.conditions) {
+      if (!condition.conditions) break;
+
+      // A negation matches records the inner condition's keys don't cover,
+      // so watch every field it references
+      if (condition.operator === 'NOT') {
+        const fields = new Set<string>();
+        collectFields(condition, fields);
+        for (const field of fields) {
           dependencies.push(
-            ...extractFromCondition(tableName, subCondition, indexName),
+            rangeWatcher(tableName, field, condition, indexName),
           );
         }
+        break;
+      }
+
+      if (condition.operator === 'AND') {
+        return extractFromConjunction(
+          tableName,
+          condition.conditions,
+          indexName,
+        );
+      }
+
+      // Any branch of an OR can match, so each needs its own dependencies
+      for (const subCondition of condition.conditions) {
+        dependencies.push(
+          ...extractFromCondition(tableName, subCondition, indexName),
+        );
       }
       break;
     }
@@ -69,27 +148,87 @@ function extractFromCondition(
 }
 
 /**
- * Extract dependencies from a tracked query operation
+ * Extracts dependencies from conditions that must all match.
+ * A record has to satisfy the most selective indexed condition (an
+ * equality, else a begins_with), so only that one is tracked, and the
+ * others are evaluated against the changes it matches. Range watchers are
+ * only registered when no condition can be indexed by value.
+ */
+function extractFromConjunction(
+  tableName: string,
+  conditions: FilterCondition[],
+  indexName?: string,
+): QueryDependency[] {
+  const flattened = conditions.flatMap((c) =>
+    c.type === 'logical' && c.operator === 'AND' ? (c.conditions ?? []) : [c],
+  );
+
+  const indexed =
+    flattened.find(
+      (c) =>
+        c.type === 'comparison' &&
+        c.operator === '=' &&
+        c.field &&
+        c.value !== undefined,
+    ) ??
+    flattened.find(
+      (c) =>
+        c.type === 'function' &&
+        c.operator === 'begins_with' &&
+        c.field &&
+        c.value,
+    );
+  if (indexed) {
+    return extractFromCondition(tableName, indexed, indexName);
+  }
+
+  return flattened.flatMap((c) =>
+    extractFromCondition(tableName, c, indexName),
+  );
+}
+
+/**
+ * Extract dependencies from a tracked query operation.
+ * Operations with no trackable filter depend on the whole table.
  */
 export function extractDependencies(
   operation: TrackedQueryOperation,
 ): QueryDependency[] {
-  const dependencies: QueryDependency[] = [];
+  // Filters must all match
+  const dependencies = extractFromConjunction(
+    operation.tableName,
+    operation.filters,
+    operation.indexName,
+  );
 
-  for (const filter of operation.filters) {
-    dependencies.push(
-      ...extractFromCondition(operation.tableName, filter, operation.indexName),
-    );
+  if (dependencies.length === 0) {
+    dependencies.push({
+      tableName: operation.tableName,
+      fieldName: TABLE_WILDCARD,
+      fieldValue: TABLE_WILDCARD,
+      indexName: operation.indexName,
+    });
   }
 
   return dependencies;
 }
 
+/**
+ * Check whether a dependency matches every change to its table
+ */
+export function isTableWideDependency(dependency: QueryDependency): boolean {
+  return dependency.fieldName === TABLE_WILDCARD;
+}
+
 /**
  * Create a dependency key for the inverted index
- * Format: "TableName#FieldName#FieldValue"
+ * Format: "TableName#FieldName#FieldValue", or "TableName#*" for a table-wide
+ * dependency
  */
 export function createDependencyKey(dependency: QueryDependency): string {
+  if (isTableWideDependency(dependency)) {
+    return `${dependency.tableName}#${TABLE_WILDCARD}`;
+  }
   return `${dependency.tableName}#${dependency.fieldName}#${dependency.fieldValue}`;
 }
 
@@ -98,6 +237,13 @@ export function createDependencyKey(dependency: QueryDependency): string {
  */
 export function parseDependencyKey(key: string): QueryDependency | null {
   const parts = key.split('#');
+  if (parts.length === 2 && parts[1] === TABLE_WILDCARD) {
+    return {
+      tableName: parts[0],
+      fieldName: TABLE_WILDCARD,
+      fieldValue: TABLE_WILDCARD,
+    };
+  }
   if (parts.length < 3) return null;
 
   return {
@@ -107,28 +253,148 @@ export function parseDependencyKey(key: string): QueryDependency | null {
   };
 }
 
+/**
+ * Create the key of a table's watched-fields entries
+ */
+export function createWatchedFieldsKey(tableName: string): string {
+  return `${tableName}#${WATCHED_FIELDS}`;
+}
+
+/**
+ * Create an empty watched-fields record
+ */
+export function createWatchedFields(): WatchedFields {
+  return { tableWide: false, fields: [], rangeFields: [], prefixLengths: {} };
+}
+
+/**
+ * Add a table's watched fields into another record of them
+ */
+export function mergeWatchedFields(
+  target: WatchedFields,
+  source: WatchedFields,
+): void {
+  const union = <T>(a: T[], b: T[]) => [...new Set([...a, ...b])];
+
+  target.tableWide ||= source.tableWide;
+  target.fields = union(target.fields, source.fields);
+  target.rangeFields = union(target.rangeFields, source.rangeFields);
+  for (const [field, lengths] of Object.entries(source.prefixLengths)) {
+    target.prefixLengths[field] = union(
+      target.prefixLengths[field] ?? [],
+      lengths,
+    );
+  }
+}
+
+/**
+ * Collect the fields dependencies watch, per table
+ */
+export function collectWatchedFields(
+  dependencies: QueryDependency[],
+): Map<string, WatchedFields> {
+  const tables = new Map<string, WatchedFields>();
+
+  for (const dependency of dependencies) {
+    const { tableName, fieldName, fieldValue } = dependency;
+    const watched = tables.get(tableName) ?? createWatchedFields();
+    const source = createWatchedFields();
+
+    if (isTableWideDependency(dependency)) {
+      source.tableWide = true;
+    } else if (fieldValue === RANGE_WATCHER) {
+      source.rangeFields.push(fieldName);
+    } else if (fieldValue.startsWith(PREFIX)) {
+      source.prefixLengths[fieldName] = [fieldValue.length - PREFIX.length];
+    } else {
+      source.fields.push(fieldName);
+    }
+
+    mergeWatchedFields(watched, source);
+    tables.set(tableName, watched);
+  }
+
+  return tables;
+}
+
+/**
+ * Sort keys of the watched-fields entries recording a table's watched fields
+ */
+export function toWatchedFieldEntries(watched: WatchedFields): string[] {
+  return [
+    ...(watched.tableWide ? [TABLE_WILDCARD] : []),
+    ...watched.fields.map((field) => `field#${field}`),
+    ...watched.rangeFields.map((field) => `range#${field}`),
+    ...Object.entries(watched.prefixLengths).flatMap(([field, lengths]) =>
+      lengths.map((length) => `prefix#${length}#${field}`),
+    ),
+  ];
+}
+
+/**
+ * Read a table's watched fields back from the sort keys of its
+ * watched-fields entries. Unrecognized sort keys are ignored.
+ */
+export function fromWatchedFieldEntries(entries: string[]): WatchedFields {
+  const watched = createWatchedFields();
+
+  for (const entry of entries) {
+    const [kind, ...rest] = entry.split('#');
+    if (entry === TABLE_WILDCARD) {
+      watched.tableWide = true;
+    } else if (kind === 'field' && rest.length > 0) {
+      watched.fields.push(rest.join('#'));
+    } else if (kind === 'range' && rest.length > 0) {
+      watched.rangeFields.push(rest.join('#'));
+    } else if (kind === 'prefix' && rest.length > 1) {
+      const field = rest.slice(1).join('#'); // Handle fields that contain #
+      (watched.prefixLengths[field] ??= []).push(Number(rest[0]));
+    }
+  }
+
+  return watched;
+}
+
 /**
  * Extract affected dependency keys from a DynamoDB stream record
- * This finds all keys that might be affected by a change
+ * This finds all keys that might be affected by a change.
+ *
+ * With the table's watched fields, only keys some subscription can match
+ * are produced. Without them every field is probed by value and range,
+ * but prefixes can't be expanded.
  */
 export function extractAffectedKeys(
   tableName: string,
   item: Record<string, unknown>,
+  watched?: WatchedFields,
 ): string[] {
   const keys: string[] = [];
 
+  // Table-wide subscriptions match every change
+  if (!watched || watched.tableWide) {
+    keys.push(`${tableName}#${TABLE_WILDCARD}`);
+  }
+
   for (const [fieldName, fieldValue] of Object.entries(item)) {
-    if (fieldValue !== null && fieldValue !== undefined) {
-      // Add exact match key
+    if (fieldValue === null || fieldValue === undefined) continue;
+
+    // Add exact match key
+    if (!watched || watched.fields.includes(fieldName)) {
       keys.push(`${tableName}#${fieldName}#${String(fieldValue)}`);
+    }
 
-      // Add prefix keys for string values (for begins_with queries)
-      if (typeof fieldValue === 'string') {
-        for (let i = 1; i <= fieldValue.length; i++) {
-          keys.push(
-            `${tableName}#${fieldName}#prefix:${fieldValue.substring(0, i)}`,
-          );
-        }
+    // Add the range watcher key (entries are filtered by their conditions)
+    if (!watched || watched.rangeFields.includes(fieldName)) {
+      keys.push(`${tableName}#${fieldName}#${RANGE_WATCHER}`);
+    }
+
+    // Add prefix keys at the lengths begins_with subscriptions watch
+    if (typeof fieldValue === 'string') {
+      for (const length of watched?.prefixLengths[fieldName] ?? []) {
+        if (length > fieldValue.length) continue;
+        keys.push(
+          `${tableName}#${fieldName}#${PREFIX}${fieldValue.substring(0, length)}`,
+        );
       }
     }
   }
@@ -136,6 +402,63 @@ export function extractAffectedKeys(
   return keys;
 }
 
+/**
+ * Operator renames per filter condition type
+ */
+type OperatorMap = Record<FilterCondition['type'], Record<string, string>>;
+
+/**
+ * Operator names used in stored QueryMetadata, keyed by builder operator
+ */
+const OPERATOR_NAMES: OperatorMap = {
+  // '=' -> 'eq', '<>' -> 'ne', etc.
+  comparison: {
+    '=': 'eq',
+    '<>': 'ne',
+    '>': 'gt',
+    '>=': 'gte',
+    '<': 'lt',
+    '<=': 'lte',
+  },
+  function: {
+    begins_with: 'beginsWith',
+    BETWEEN: 'between',
+  },
+  logical: {
+    AND: 'and',
+    OR: 'or',
+    NOT: 'not',
+  },
+};
+
+/**
+ * Builder operators keyed by stored operator name (inverse of OPERATOR_NAMES)
+ */
+const BUILDER_OPERATORS = Object.fromEntries(
+  Object.entries(OPERATOR_NAMES).map(([type, names]) => [
+    type,
+    Object.fromEntries(
+      Object.entries(names).map(([builder, stored]) => [stored, builder]),
+    ),
+  ]),
+) as OperatorMap;
+
+/**
+ * Map filter operators (recursively) using a per-type operator map
+ */
+function mapOperators(
+  filters: FilterCondition[],
+  operatorMap: OperatorMap,
+): FilterCondition[] {
+  return filters.map((filter) => ({
+    ...filter,
+    operator: operatorMap[filter.type]?.[filter.operator] ?? filter.operator,
+    ...(filter.conditions && {
+      conditions: mapOperators(filter.conditions, operatorMap),
+    }),
+  }));
+}
+
 /**
  * Convert a TrackedQueryOperation to QueryMetadata for storage.
  * Normalizes filter operators for evaluation.
@@ -143,61 +466,48 @@ export function extractAffectedKeys(
 export function operationToQueryMetadata(
   operation: TrackedQueryOperation,
 ): QueryMetadata {
-  // Normalize operators to what the filter evaluator expects
-  const normalizeFilters = (filters: FilterCondition[]): FilterCondition[] => {
-    return filters.map((f) => normalizeFilter(f));
-  };
-
-  const normalizeFilter = (filter: FilterCondition): FilterCondition => {
-    if (filter.type === 'comparison') {
-      // Normalize operators: '=' -> 'eq', '<>' -> 'ne', etc.
-      const operatorMap: Record<string, string> = {
-        '=': 'eq',
-        '<>': 'ne',
-        '>': 'gt',
-        '>=': 'gte',
-        '<': 'lt',
-        '<=': 'lte',
-      };
-      return {
-        ...filter,
-        operator: operatorMap[filter.operator ?? ''] ?? filter.operator,
-      };
-    }
-    if (filter.type === 'function') {
-      // Normalize function names
-      const operatorMap: Record<string, string> = {
-        begins_with: 'beginsWith',
-        BETWEEN: 'between',
-      };
-      return {
-        ...filter,
-        operator: operatorMap[filter.operator ?? ''] ?? filter.operator,
-      };
-    }
-    if (filter.type === 'logical' && filter.conditions) {
-      // Normalize operators: 'AND' -> 'and', etc.
-      const operatorMap: Record<string, string> = {
-        AND: 'and',
-        OR: 'or',
-        NOT: 'not',
-      };
-      return {
-        ...filter,
-        operator: operatorMap[filter.operator ?? ''] ?? filter.operator,
-        conditions: normalizeFilters(filter.conditions),
-      };
-    }
-    return filter;
-  };
-
   return {
+    type: operation.type,
     tableName: operation.tableName,
     indexName: operation.indexName,
-    filterConditions: normalizeFilters(operation.filters),
+    pkField: operation.pkField,
+    skField: operation.skField,
+    indexPkField: operation.indexPkField,
+    indexSkField: operation.indexSkField,
+    allowScan: operation.allowScan,
+    filterConditions: mapOperators(operation.filters, OPERATOR_NAMES),
     sortField: operation.sortField,
     sortOrder: operation.sortOrder,
     limit: operation.limit,
+    startKey: operation.startKey,
+    paged: operation.paged,
+    endKey: operation.endKey,
+  };
+}
+
+/**
+ * Convert stored QueryMetadata back into an operation that can be executed.
+ * Used by the stream handler when a result has to be re-queried.
+ */
+export function queryMetadataToOperation(
+  metadata: QueryMetadata,
+): TrackedQueryOperation {
+  return {
+    type: metadata.type,
+    tableName: metadata.tableName,
+    filters: mapOperators(metadata.filterConditions, BUILDER_OPERATORS),
+    indexName: metadata.indexName,
+    pkField: metadata.pkField ?? '',
+    skField: metadata.skField,
+    indexPkField: metadata.indexPkField,
+    indexSkField: metadata.indexSkField,
+    allowScan: metadata.allowScan,
+    sortField: metadata.sortField,
+    sortOrder: metadata.sortOrder,
+    limit: metadata.limit,
+    startKey: metadata.startKey,
+    paged: metadata.paged,
+    endKey: metadata.endKey,
   };
 }
 
@@ -206,12 +516,14 @@ export function operationToQueryMetadata(
  */
 export class DependencyTracker {
   private operations: TrackedQueryOperation[] = [];
+  private results: unknown[] = [];
 
   /**
-   * Track a query operation
+   * Track a query operation and the items it returned
    */
-  track(operation: TrackedQueryOperation): void {
+  track(operation: TrackedQueryOperation, result?: unknown): void {
     this.operations.push(operation);
+    this.results.push(result);
   }
 
   /**
@@ -234,21 +546,45 @@ export class DependencyTracker {
     return dependencies;
   }
 
+  /**
+   * Get the dependencies of every tracked operation, including those whose
+   * results can't be located in the output: a change to them re-runs the
+   * procedure.
+   */
+  getDependencies(): QueryDependency[] {
+    return this.operations.flatMap((operation) =>
+      extractDependencies(operation),
+    );
+  }
+
   /**
    * Get all dependency keys for the inverted index
    */
   getDependencyKeys(): string[] {
-    return this.extractAll().map(createDependencyKey);
+    const keys = this.getDependencies().map(createDependencyKey);
+    return [...new Set(keys)];
   }
 
   /**
-   * Get query metadata for the first tracked operation.
+   * Get query metadata for every tracked operation, in execution order.
    * Used for storing subscription state.
+   *
+   * When the procedure output is given, each resultPath is set to where the
+   * query's items appear in it. It is left unset if they can't be found
+   * (e.g. the resolver transformed the items), and the stream handler
+   * re-runs the procedure instead.
    */
-  getQueryMetadata(): QueryMetadata | null {
-    if (this.operations.length === 0) return null;
-    // For now, we only support single-query subscriptions
-    return operationToQueryMetadata(this.operations[0]);
+  getQueryMetadata(output?: unknown): QueryMetadata[] {
+    return this.operations.map((operation, i) => {
+      const metadata = operationToQueryMetadata(operation);
+      if (output !== undefined) {
+        const resultPath = findValuePath(output, this.results[i]);
+        if (resultPath !== null) {
+          metadata.resultPath = resultPath;
+        }
+      }
+      return metadata;
+    });
   }
 
   /**
@@ -272,5 +608,6 @@ export class DependencyTracker {
    */
   clear(): void {
     this.operations = [];
+    this.results = [];
   }
 }
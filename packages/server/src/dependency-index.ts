@@ -0,0 +1,286 @@
+import {
+  DeleteCommand,
+  type DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { FilterCondition } from '@dynamodb-reactive/core';
+
+import {
+  createDependencyKey,
+  createWatchedFieldsKey,
+  fromWatchedFieldEntries,
+  toWatchedFieldEntries,
+} from './dependency-extractor.js';
+import type { QueryDependency, WatchedFields } from './types.js';
+
+/**
+ * Maximum number of dependency keys probed at once
+ */
+const PROBE_CONCURRENCY = 16;
+
+/**
+ * Sort key of the entry counting changes to a table's watched fields.
+ * Its version is bumped whenever a field starts being watched, so cached
+ * watched fields can tell they are out of date.
+ */
+const WATCHED_FIELDS_VERSION = '@version';
+
+/**
+ * A subscription found in the dependency index
+ */
+export interface AffectedSubscription {
+  connectionId: string;
+  subscriptionId: string;
+  /** Range watcher conditions, if the entry is one */
+  conditions?: FilterCondition[];
+}
+
+/**
+ * Query every item under a partition key of the dependencies table
+ */
+async function queryPartition(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  pk: string,
+): Promise<Record<string, unknown>[]> {
+  const items: Record<string, unknown>[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const response = await docClient.send(
+      new QueryCommand({
+        TableName: dependenciesTable,
+        KeyConditionExpression: 'pk = :pk',
+        ExpressionAttributeValues: { ':pk': pk },
+        ExclusiveStartKey: exclusiveStartKey,
+      }),
+    );
+    items.push(...(response.Items ?? []));
+    exclusiveStartKey = response.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
+/**
+ * Record the fields a subscription watches on a table. Each field has one
+ * entry, kept until the last subscription watching it expires; the
+ * table's watched-fields version is bumped if any field is new.
+ */
+export async function registerWatchedFields(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  tableName: string,
+  watched: WatchedFields,
+  ttl: number,
+): Promise<void> {
+  const pk = createWatchedFieldsKey(tableName);
+  let added = false;
+
+  for (const sk of toWatchedFieldEntries(watched)) {
+    try {
+      const response = await docClient.send(
+        new UpdateCommand({
+          TableName: dependenciesTable,
+          Key: { pk, sk },
+          UpdateExpression: 'SET #ttl = :ttl',
+          ConditionExpression: 'attribute_not_exists(#ttl) OR #ttl < :ttl',
+          ExpressionAttributeNames: { '#ttl': 'ttl' },
+          ExpressionAttributeValues: { ':ttl': ttl },
+          ReturnValues: 'UPDATED_OLD',
+        }),
+      );
+      added ||= !response.Attributes;
+    } catch (error) {
+      // The entry already outlives this subscription
+      if ((error as Error).name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  if (added) {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: dependenciesTable,
+        Key: { pk, sk: WATCHED_FIELDS_VERSION },
+        UpdateExpression: 'ADD #version :one',
+        ExpressionAttributeNames: { '#version': 'version' },
+        ExpressionAttributeValues: { ':one': 1 },
+      }),
+    );
+  }
+}
+
+/**
+ * Load the fields watched on a table from its watched-fields entries
+ */
+export async function loadWatchedFields(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  tableName: string,
+): Promise<WatchedFields> {
+  const items = await queryPartition(
+    docClient,
+    dependenciesTable,
+    createWatchedFieldsKey(tableName),
+  );
+
+  return fromWatchedFieldEntries(
+    items
+      .map((item) => item.sk as string)
+      .filter((sk) => sk !== WATCHED_FIELDS_VERSION),
+  );
+}
+
+/**
+ * Read the version of a table's watched fields (0 if none were registered)
+ */
+async function loadWatchedFieldsVersion(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  tableName: string,
+): Promise<number> {
+  const response = await docClient.send(
+    new GetCommand({
+      TableName: dependenciesTable,
+      Key: {
+        pk: createWatchedFieldsKey(tableName),
+        sk: WATCHED_FIELDS_VERSION,
+      },
+      ConsistentRead: true,
+    }),
+  );
+  return (response.Item?.version as number | undefined) ?? 0;
+}
+
+/**
+ * Create a per-Lambda cache of watched fields.
+ * Each lookup reads the table's watched-fields version, and reloads the
+ * fields if it changed, so a field a new subscription watches is never
+ * missed. Load errors are thrown and nothing is cached.
+ */
+export function createWatchedFieldsCache(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+) {
+  const cache = new Map<string, { watched: WatchedFields; version: number }>();
+
+  return async function getWatchedFields(
+    tableName: string,
+  ): Promise<WatchedFields> {
+    const version = await loadWatchedFieldsVersion(
+      docClient,
+      dependenciesTable,
+      tableName,
+    );
+    const cached = cache.get(tableName);
+    if (cached && cached.version === version) {
+      return cached.watched;
+    }
+
+    const watched = await loadWatchedFields(
+      docClient,
+      dependenciesTable,
+      tableName,
+    );
+    cache.set(tableName, { watched, version });
+    return watched;
+  };
+}
+
+/**
+ * Store a subscription's entries in the dependency index. Range watchers
+ * carry their conditions for the stream handler to evaluate.
+ */
+export async function storeDependencyEntries(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  subscription: { connectionId: string; subscriptionId: string; ttl: number },
+  dependencies: QueryDependency[],
+): Promise<void> {
+  const { connectionId, subscriptionId, ttl } = subscription;
+  const keys = new Set(dependencies.map(createDependencyKey));
+
+  for (const key of keys) {
+    const conditions = dependencies
+      .filter((d) => d.condition && createDependencyKey(d) === key)
+      .map((d) => d.condition!);
+
+    await docClient.send(
+      new PutCommand({
+        TableName: dependenciesTable,
+        Item: {
+          pk: key,
+          sk: `${connectionId}#${subscriptionId}`,
+          connectionId,
+          subscriptionId,
+          ...(conditions.length > 0 && { conditions }),
+          ttl,
+        },
+      }),
+    );
+  }
+}
+
+/**
+ * Delete a subscription's entries for dependency keys it no longer has
+ */
+export async function deleteDependencyEntries(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  subscription: { connectionId: string; subscriptionId: string },
+  keys: string[],
+): Promise<void> {
+  const { connectionId, subscriptionId } = subscription;
+
+  for (const key of keys) {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: dependenciesTable,
+        Key: { pk: key, sk: `${connectionId}#${subscriptionId}` },
+      }),
+    );
+  }
+}
+
+/**
+ * Find the subscriptions for each dependency key.
+ * Keys are probed concurrently, in batches of PROBE_CONCURRENCY.
+ * Keys whose lookup failed are missing from the result.
+ */
+export async function findSubscriptionsByKeys(
+  docClient: DynamoDBDocumentClient,
+  dependenciesTable: string,
+  keys: Iterable<string>,
+): Promise<Map<string, AffectedSubscription[]>> {
+  const results = new Map<string, AffectedSubscription[]>();
+  const pending = [...new Set(keys)];
+
+  for (let i = 0; i < pending.length; i += PROBE_CONCURRENCY) {
+    const batch = pending.slice(i, i + PROBE_CONCURRENCY);
+
+    await Promise.all(
+      batch.map(async (key) => {
+        try {
+          const items = await queryPartition(docClient, dependenciesTable, key);
+          results.set(
+            key,
+            items.map((item) => ({
+              connectionId: item.connectionId as string,
+              subscriptionId: item.subscriptionId as string,
+              conditions: item.conditions as FilterCondition[] | undefined,
+            })),
+          );
+        } catch (error) {
+          console.error('Error finding affected subscriptions:', error);
+        }
+      }),
+    );
+  }
+
+  return results;
+}
@@ -0,0 +1,153 @@
+import type { ErrorCode, ErrorIssue } from '@dynamodb-reactive/core';
+import type { z } from 'zod';
+
+/**
+ * Error codes sent to clients so they can branch on the kind of failure
+ */
+export type ReactiveErrorCode = ErrorCode;
+
+/**
+ * HTTP status code for each error code
+ */
+const HTTP_STATUS_CODES: Record<ReactiveErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  PAYLOAD_TOO_LARGE: 413,
+  INTERNAL: 500,
+};
+
+/**
+ * Get the HTTP status code for an error code
+ */
+export function getHttpStatusCode(code: ReactiveErrorCode): number {
+  return HTTP_STATUS_CODES[code];
+}
+
+/**
+ * A single input validation failure
+ */
+export type ReactiveErrorIssue = ErrorIssue;
+
+/**
+ * Error thrown by procedures, middleware or the framework itself.
+ * The code, message and issues are sent to the client.
+ *
+ * @example
+ * ```ts
+ * throw new ReactiveError({ code: 'FORBIDDEN', message: 'Not your todo' });
+ * ```
+ */
+export class ReactiveError extends Error {
+  readonly code: ReactiveErrorCode;
+  readonly issues?: ReactiveErrorIssue[];
+
+  constructor(opts: {
+    code: ReactiveErrorCode;
+    message?: string;
+    issues?: ReactiveErrorIssue[];
+    cause?: unknown;
+  }) {
+    super(opts.message ?? opts.code, { cause: opts.cause });
+    this.name = 'ReactiveError';
+    this.code = opts.code;
+    this.issues = opts.issues;
+  }
+}
+
+/**
+ * Create a BAD_REQUEST error from a failed input (or request) validation
+ */
+export function createInputError(
+  error: z.ZodError,
+  subject = 'input',
+): ReactiveError {
+  return new ReactiveError({
+    code: 'BAD_REQUEST',
+    message: `Invalid ${subject}: ${error.issues.map((i) => i.message).join(', ')}`,
+    issues: error.issues.map((issue) => ({
+      path: issue.path,
+      message: issue.message,
+      code: issue.code,
+    })),
+    cause: error,
+  });
+}
+
+/**
+ * Normalise anything thrown into a ReactiveError.
+ * Failed conditional writes become CONFLICT, everything else INTERNAL.
+ * Their messages may expose internals, so clients get a generic one; the
+ * original error is kept as the cause.
+ */
+export function toReactiveError(error: unknown): ReactiveError {
+  if (error instanceof ReactiveError) return error;
+
+  if (
+    error instanceof Error &&
+    error.name === 'ConditionalCheckFailedException'
+  ) {
+    return new ReactiveError({
+      code: 'CONFLICT',
+      message: 'Conflicting update',
+      cause: error,
+    });
+  }
+
+  return new ReactiveError({
+    code: 'INTERNAL',
+    message: 'Internal server error',
+    cause: error,
+  });
+}
+
+/**
+ * Names of AWS errors that may succeed when retried
+ */
+const TRANSIENT_ERROR_NAMES = new Set([
+  'InternalServerError',
+  'LimitExceededException',
+  'ProvisionedThroughputExceededException',
+  'RequestLimitExceeded',
+  'ServiceUnavailable',
+  'ThrottlingException',
+  'TimeoutError',
+  'TooManyRequestsException',
+  'TransactionConflictException',
+]);
+
+/**
+ * Codes of network errors that may succeed when retried
+ */
+const TRANSIENT_NETWORK_CODES = new Set([
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EPIPE',
+  'ETIMEDOUT',
+]);
+
+/**
+ * Check if an error may not recur when the work is retried: throttling,
+ * AWS server faults, network errors and conflicting updates. Anything
+ * else (e.g. a procedure rejecting its context, or output that doesn't
+ * match its schema) fails the same way every time.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ReactiveError) return error.code === 'CONFLICT';
+  if (!(error instanceof Error)) return false;
+
+  const { $fault, $retryable, code } = error as {
+    $fault?: 'client' | 'server';
+    $retryable?: unknown;
+    code?: string;
+  };
+  return (
+    $fault === 'server' ||
+    $retryable !== undefined ||
+    TRANSIENT_ERROR_NAMES.has(error.name) ||
+    (code !== undefined && TRANSIENT_NETWORK_CODES.has(code))
+  );
+}
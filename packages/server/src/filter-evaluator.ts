@@ -49,6 +49,11 @@ function evaluateComparison(
 
   const fieldValue = getFieldValue(record, field);
 
+  // DynamoDB range comparisons never match an absent attribute
+  if (isAbsent(fieldValue) && operator !== 'eq' && operator !== 'ne') {
+    return false;
+  }
+
   switch (operator) {
     case 'eq':
       return fieldValue === value;
@@ -97,13 +102,13 @@ function evaluateLogical(
 }
 
 /**
- * Evaluate a function filter (beginsWith, contains).
+ * Evaluate a function filter (beginsWith, contains, between).
  */
 function evaluateFunction(
   filter: FilterCondition,
   record: Record<string, unknown>,
 ): boolean {
-  const { operator, field, value } = filter;
+  const { operator, field, value, value2 } = filter;
   if (!field || !operator) return false;
 
   const fieldValue = getFieldValue(record, field);
@@ -121,6 +126,12 @@ function evaluateFunction(
         typeof value === 'string' &&
         fieldValue.includes(value)
       );
+    case 'between':
+      return (
+        !isAbsent(fieldValue) &&
+        compareValues(fieldValue, value) >= 0 &&
+        compareValues(fieldValue, value2) <= 0
+      );
     default:
       console.warn(`Unknown function operator: ${operator}`);
       return false;
@@ -130,7 +141,7 @@ function evaluateFunction(
 /**
  * Get a field value from a record, supporting nested paths (e.g., "user.name").
  */
-function getFieldValue(
+export function getFieldValue(
   record: Record<string, unknown>,
   field: string,
 ): unknown {
@@ -146,11 +157,19 @@ function getFieldValue(
   return value;
 }
 
+/**
+ * Check whether an attribute is missing from a record
+ */
+function isAbsent(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
 /**
  * Compare two values for ordering.
  * Returns negative if a < b, positive if a > b, zero if equal.
+ * Strings compare by UTF-8 bytes, the order DynamoDB sorts keys in.
  */
-function compareValues(a: unknown, b: unknown): number {
+export function compareValues(a: unknown, b: unknown): number {
   // Handle null/undefined
   if (a === null || a === undefined) {
     return b === null || b === undefined ? 0 : -1;
@@ -166,7 +185,7 @@ function compareValues(a: unknown, b: unknown): number {
 
   // Strings
   if (typeof a === 'string' && typeof b === 'string') {
-    return a.localeCompare(b);
+    return compareBytes(a, b);
   }
 
   // Booleans
@@ -175,7 +194,14 @@ function compareValues(a: unknown, b: unknown): number {
   }
 
   // Fallback: convert to string
-  return String(a).localeCompare(String(b));
+  return compareBytes(String(a), String(b));
+}
+
+/**
+ * Compare strings by their UTF-8 bytes
+ */
+function compareBytes(a: string, b: string): number {
+  return Buffer.compare(Buffer.from(a), Buffer.from(b));
 }
 
 /**
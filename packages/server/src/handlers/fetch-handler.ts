@@ -0,0 +1,233 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyStructuredResultV2,
+} from 'aws-lambda';
+
+import { getHttpStatusCode, ReactiveError } from '../errors.js';
+import type {
+  ErrorResponse,
+  ReactiveHandler,
+  ReactiveResponse,
+} from './reactive-handler.js';
+
+/**
+ * Default maximum number of requests in a batch
+ */
+const DEFAULT_MAX_BATCH_SIZE = 25;
+
+/**
+ * Configuration for the fetch handler
+ */
+export interface FetchHandlerConfig<TContext> {
+  handler: ReactiveHandler<TContext>;
+  /**
+   * Resolve the WebSocket connection the request belongs to, and verify
+   * the caller owns it (e.g. against the authenticated user), since
+   * subscriptions are created on and results pushed to that connection.
+   * Throw to reject the request: a ReactiveError keeps its code, anything
+   * else is UNAUTHORIZED.
+   */
+  getConnectionId: (request: Request) => string | Promise<string>;
+  /**
+   * Maximum number of requests in a batch (default 25)
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Create a WHATWG fetch handler (`Request -> Response`) for a reactive
+ * handler, for Next.js route handlers, Lambda function URLs or any server
+ * with fetch-style requests.
+ *
+ * Accepts POSTed JSON with a single request, or an array of requests that
+ * are executed together and answered with an array of responses in the
+ * same order. Errors map to HTTP status codes; a batch with any failures
+ * responds with 207, and one over maxBatchSize with 413.
+ *
+ * @example
+ * ```ts
+ * // app/api/reactive/route.ts
+ * export const POST = createFetchHandler({
+ *   handler,
+ *   getConnectionId: (request) => verifyConnection(request),
+ * });
+ * ```
+ */
+export function createFetchHandler<TContext>(
+  config: FetchHandlerConfig<TContext>,
+) {
+  const { getConnectionId } = config;
+  const maxBatchSize = config.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+
+  return async function fetchHandler(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return json(errorResponse('BAD_REQUEST', 'Method not allowed'), 405, {
+        Allow: 'POST',
+      });
+    }
+
+    const contentType = request.headers.get('content-type') ?? '';
+    if (!contentType.includes('application/json')) {
+      return json(
+        errorResponse('BAD_REQUEST', 'Content-Type must be application/json'),
+        415,
+      );
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return json(errorResponse('BAD_REQUEST', 'Invalid JSON body'), 400);
+    }
+
+    if (Array.isArray(body) && body.length > maxBatchSize) {
+      return json(
+        errorResponse(
+          'PAYLOAD_TOO_LARGE',
+          `Batch exceeds the limit of ${maxBatchSize} requests`,
+        ),
+        413,
+      );
+    }
+
+    let connectionId: string;
+    try {
+      connectionId = await getConnectionId(request);
+    } catch (error) {
+      if (error instanceof ReactiveError) {
+        return json(
+          errorResponse(error.code, error.message),
+          getHttpStatusCode(error.code),
+        );
+      }
+      console.error('Error resolving connection:', error);
+      return json(
+        errorResponse('UNAUTHORIZED', 'Unknown connection'),
+        getHttpStatusCode('UNAUTHORIZED'),
+      );
+    }
+
+    // Each request is validated by the reactive handler
+    const execute = (item: unknown): Promise<ReactiveResponse> =>
+      config.handler.handleRequest(connectionId, item);
+
+    if (Array.isArray(body)) {
+      const responses = await Promise.all(body.map(execute));
+      const failed = responses.some((r) => r.type === 'error');
+      return json(responses, failed ? 207 : 200);
+    }
+
+    const response = await execute(body);
+    return json(
+      response,
+      response.type === 'error' ? getHttpStatusCode(response.code) : 200,
+    );
+  };
+}
+
+/**
+ * Adapt a fetch handler to a Node `http` request listener
+ *
+ * @example
+ * ```ts
+ * http.createServer(toNodeHandler(createFetchHandler({ handler })));
+ * ```
+ */
+export function toNodeHandler(
+  fetchHandler: (request: Request) => Promise<Response>,
+) {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      for (const v of Array.isArray(value) ? value : [value]) {
+        if (v !== undefined) headers.append(name, v);
+      }
+    }
+
+    const method = req.method ?? 'GET';
+    const response = await fetchHandler(
+      new Request(
+        `http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`,
+        {
+          method,
+          headers,
+          body:
+            method === 'GET' || method === 'HEAD'
+              ? undefined
+              : Buffer.concat(chunks),
+        },
+      ),
+    );
+
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  };
+}
+
+/**
+ * Adapt a fetch handler to a Lambda function URL (or HTTP API) handler
+ */
+export function toLambdaUrlHandler(
+  fetchHandler: (request: Request) => Promise<Response>,
+) {
+  return async (
+    event: APIGatewayProxyEventV2,
+  ): Promise<APIGatewayProxyStructuredResultV2> => {
+    const { method } = event.requestContext.http;
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(event.headers)) {
+      if (value !== undefined) headers.set(name, value);
+    }
+
+    const body =
+      event.body === undefined
+        ? undefined
+        : Buffer.from(event.body, event.isBase64Encoded ? 'base64' : 'utf8');
+    const query = event.rawQueryString ? `?${event.rawQueryString}` : '';
+
+    const response = await fetchHandler(
+      new Request(
+        `https://${event.requestContext.domainName}${event.rawPath}${query}`,
+        { method, headers, body },
+      ),
+    );
+
+    return {
+      statusCode: response.status,
+      headers: Object.fromEntries(response.headers),
+      body: await response.text(),
+    };
+  };
+}
+
+/**
+ * Build an error response for a request the handler never saw
+ */
+function errorResponse(
+  code: ErrorResponse['code'],
+  message: string,
+): ErrorResponse {
+  return { type: 'error', code, message };
+}
+
+/**
+ * Build a JSON response
+ */
+function json(
+  body: unknown,
+  status: number,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
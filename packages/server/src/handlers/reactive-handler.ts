@@ -1,75 +1,69 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import {
-  DeleteCommand,
   DynamoDBDocumentClient,
   GetCommand,
   PutCommand,
+  QueryCommand,
 } from '@aws-sdk/lib-dynamodb';
-import type { ConnectionEntry, QueryEntry } from '@dynamodb-reactive/core';
-import { SystemTableNames } from '@dynamodb-reactive/core';
+import type {
+  CallMessage,
+  ClientMessage,
+  ConnectionEntry,
+  ErrorMessage,
+  PatchMessage,
+  QueryEntry,
+  ResultMessage,
+  ServerLimits,
+  ServerMessage,
+  SnapshotMessage,
+  SubscribeMessage,
+  UnsubscribedMessage,
+  UnsubscribeMessage,
+} from '@dynamodb-reactive/core';
+import { ClientMessageSchema, SystemTableNames } from '@dynamodb-reactive/core';
 
+import {
+  teardownConnection,
+  teardownSubscription,
+} from '../connection-teardown.js';
 import { createDbContext, type DbContextConfig } from '../db-context.js';
-import { DependencyTracker } from '../dependency-extractor.js';
+import {
+  collectWatchedFields,
+  DependencyTracker,
+  isTableWideDependency,
+} from '../dependency-extractor.js';
+import {
+  deleteDependencyEntries,
+  registerWatchedFields,
+  storeDependencyEntries,
+} from '../dependency-index.js';
+import { createInputError, ReactiveError, toReactiveError } from '../errors.js';
+import { acceptHello } from '../handshake.js';
 import type { Router } from '../router.js';
 import type { DatabaseContext } from '../types.js';
 
 /**
- * Request types for the reactive handler
+ * Attempts at storing a subscription before reporting a conflict
  */
-export interface SubscribeRequest {
-  type: 'subscribe';
-  subscriptionId: string;
-  path: string;
-  input: unknown;
-}
-
-export interface UnsubscribeRequest {
-  type: 'unsubscribe';
-  subscriptionId: string;
-}
-
-export interface CallRequest {
-  type: 'call';
-  path: string;
-  input: unknown;
-}
-
-export type ReactiveRequest =
-  | SubscribeRequest
-  | UnsubscribeRequest
-  | CallRequest;
+const MAX_SUBSCRIBE_ATTEMPTS = 3;
 
 /**
- * Response types for the reactive handler
+ * Request types for the reactive handler, from the shared protocol
  */
-export interface SnapshotResponse {
-  type: 'snapshot';
-  subscriptionId: string;
-  data: unknown;
-}
-
-export interface PatchResponse {
-  type: 'patch';
-  subscriptionId: string;
-  patches: unknown[];
-}
-
-export interface ResultResponse {
-  type: 'result';
-  data: unknown;
-}
+export type SubscribeRequest = SubscribeMessage;
+export type UnsubscribeRequest = UnsubscribeMessage;
+export type CallRequest = CallMessage;
+export type ReactiveRequest = ClientMessage;
 
-export interface ErrorResponse {
-  type: 'error';
-  message: string;
-  subscriptionId?: string;
-}
-
-export type ReactiveResponse =
-  | SnapshotResponse
-  | PatchResponse
-  | ResultResponse
-  | ErrorResponse;
+/**
+ * Response types for the reactive handler, from the shared protocol
+ */
+export type SnapshotResponse = SnapshotMessage;
+export type PatchResponse = PatchMessage;
+export type UnsubscribedResponse = UnsubscribedMessage;
+export type ResultResponse = ResultMessage;
+export type ErrorResponse = ErrorMessage;
+export type ReactiveResponse = ServerMessage;
 
 /**
  * Configuration for the reactive handler
@@ -79,6 +73,27 @@ export interface ReactiveHandlerConfig<TContext> {
   dbConfig?: DbContextConfig;
   getContext: (connectionId: string) => Promise<TContext>;
   ttlSeconds?: number;
+  /**
+   * What to do when a subscription depends on a whole table (a query with
+   * no filters), which is re-evaluated on every change to that table.
+   * Defaults to 'warn'.
+   */
+  tableWideSubscriptions?: 'warn' | 'error' | 'allow';
+  /**
+   * Limits advertised to clients in the hello handshake.
+   * maxSubscriptions is enforced on subscribe.
+   */
+  limits?: ServerLimits;
+  /**
+   * Called with every error before it is sent to the client,
+   * e.g. for logging or error reporting
+   */
+  onError?: (opts: {
+    error: ReactiveError;
+    connectionId: string;
+    /** The message as received, which may not be a valid request */
+    request: unknown;
+  }) => void;
   /** Table names (uses defaults if not provided) */
   connectionsTableName?: string;
   dependenciesTableName?: string;
@@ -87,13 +102,14 @@ export interface ReactiveHandlerConfig<TContext> {
 
 /**
  * Create a reactive handler for Next.js API routes or other HTTP servers.
- * This handler is used for subscribe/call requests and stores queryMetadata
+ * This handler is used for subscribe/call requests and stores query metadata
  * for the stream handler to use later.
  */
 export function createReactiveHandler<TContext>(
   config: ReactiveHandlerConfig<TContext>,
 ) {
   const ttlSeconds = config.ttlSeconds ?? 3600; // 1 hour default
+  const tableWideSubscriptions = config.tableWideSubscriptions ?? 'warn';
   const connectionsTable =
     config.connectionsTableName ?? SystemTableNames.connections;
   const dependenciesTable =
@@ -111,117 +127,245 @@ export function createReactiveHandler<TContext>(
    */
   async function handleRequest(
     connectionId: string,
-    request: ReactiveRequest,
+    message: unknown,
   ): Promise<ReactiveResponse> {
     try {
+      const request = parseRequest(message);
       const ctx = await config.getContext(connectionId);
-      const dependencyTracker = new DependencyTracker();
-      const db = createDbContext(config.dbConfig ?? {}, dependencyTracker);
-      const fullCtx = { ...ctx, db } as TContext & { db: DatabaseContext };
 
+      // Awaited, so rejections are answered with an error response
       switch (request.type) {
-        case 'subscribe':
-          return handleSubscribe(
+        case 'hello':
+          return await acceptHello(
+            docClient,
+            connectionsTable,
             connectionId,
             request,
-            fullCtx,
-            dependencyTracker,
+            { limits: config.limits },
           );
 
+        case 'subscribe':
+          return await handleSubscribe(connectionId, request, ctx);
+
         case 'unsubscribe':
-          return handleUnsubscribe(connectionId, request);
+          return await handleUnsubscribe(connectionId, request);
 
         case 'call':
-          return handleCall(request, fullCtx);
-
-        default:
-          return {
-            type: 'error',
-            message: `Unknown request type: ${(request as { type: string }).type}`,
-          };
+          return await handleCall(request, {
+            ...ctx,
+            db: createDbContext(config.dbConfig ?? {}),
+          } as TContext & { db: DatabaseContext });
       }
-    } catch (error) {
+    } catch (caught) {
+      const error = toReactiveError(caught);
+      config.onError?.({ error, connectionId, request: message });
+
+      // Correlate the error with the request, even an invalid one
+      const { subscriptionId, callId } = (message ?? {}) as Record<
+        string,
+        unknown
+      >;
       return {
         type: 'error',
-        message: error instanceof Error ? error.message : 'Unknown error',
+        code: error.code,
+        message: error.message,
+        issues: error.issues,
         subscriptionId:
-          'subscriptionId' in request ? request.subscriptionId : undefined,
+          typeof subscriptionId === 'string' ? subscriptionId : undefined,
+        callId: typeof callId === 'string' ? callId : undefined,
       };
     }
   }
 
+  /**
+   * Validate an incoming message against the shared protocol
+   */
+  function parseRequest(message: unknown): ReactiveRequest {
+    const parseResult = ClientMessageSchema.safeParse(message);
+    if (!parseResult.success) {
+      throw createInputError(parseResult.error, 'request');
+    }
+    return parseResult.data;
+  }
+
   /**
    * Handle a subscribe request.
-   * Executes the query, stores queryMetadata for stream handler, returns initial data.
+   * Executes the query, stores query metadata for stream handler, returns initial data.
    */
   async function handleSubscribe(
     connectionId: string,
     request: SubscribeRequest,
-    ctx: TContext & { db: DatabaseContext },
-    dependencyTracker: DependencyTracker,
+    ctx: TContext,
   ): Promise<ReactiveResponse> {
+    const maxSubscriptions = config.limits?.maxSubscriptions;
+    if (
+      maxSubscriptions !== undefined &&
+      (await countOtherSubscriptions(connectionId, request.subscriptionId)) >=
+        maxSubscriptions
+    ) {
+      throw new ReactiveError({
+        code: 'BAD_REQUEST',
+        message: `Connection has reached the limit of ${maxSubscriptions} subscriptions`,
+      });
+    }
+
+    // A subscription being replaced may be updated by the stream handler
+    // while the new one is created, so its result could miss that change.
+    // Each attempt runs the procedure again for a fresh snapshot.
+    for (let attempt = 0; attempt < MAX_SUBSCRIBE_ATTEMPTS; attempt++) {
+      const response = await trySubscribe(connectionId, request, ctx);
+      if (response) return response;
+    }
+
+    throw new ReactiveError({
+      code: 'CONFLICT',
+      message: `Subscription '${request.subscriptionId}' kept changing while it was created`,
+    });
+  }
+
+  /**
+   * Execute a subscription's procedure and store it, unless the stored
+   * subscription it replaces changed in the meantime. Returns the snapshot,
+   * or null if the subscription changed.
+   */
+  async function trySubscribe(
+    connectionId: string,
+    request: SubscribeRequest,
+    ctx: TContext,
+  ): Promise<ReactiveResponse | null> {
+    const dependencyTracker = new DependencyTracker();
+    const db = createDbContext(config.dbConfig ?? {}, dependencyTracker);
+
     // Execute the query to get initial data
-    const result = await config.router.execute(
+    // Query results are located by reference, so they must be found in the
+    // raw output before the output schema copies it
+    const rawResult = await config.router.execute(
       request.path,
-      ctx,
+      { ...ctx, db },
       request.input,
+      { validateOutput: false },
     );
+    const result = config.router.parseOutput(request.path, rawResult);
+    const outputSchema = config.router.hasOutputSchema(request.path);
 
-    // Get query metadata and dependencies
-    const queryMetadata = dependencyTracker.getQueryMetadata();
+    // Get query metadata and dependencies for the queries the output exposes
+    const queries = dependencyTracker.getQueryMetadata(rawResult);
+    const dependencies = dependencyTracker.getDependencies();
     const dependencyKeys = dependencyTracker.getDependencyKeys();
+    const watchedFields = collectWatchedFields(dependencies);
+
+    const tableWide = dependencies.filter(isTableWideDependency);
+    if (tableWide.length > 0 && tableWideSubscriptions !== 'allow') {
+      const tables = [...new Set(tableWide.map((d) => d.tableName))];
+      const message = `Subscription to '${request.path}' depends on every change to ${tables.join(', ')}; add a filter to narrow it`;
+      if (tableWideSubscriptions === 'error') {
+        throw new ReactiveError({ code: 'BAD_REQUEST', message });
+      }
+      console.warn(message);
+    }
 
-    if (!queryMetadata) {
+    if (queries.length === 0) {
       console.warn('No query metadata captured for subscription');
     }
 
+    // Continue the version sequence of a subscription being replaced, so
+    // patches computed from its old result are never applied to this one,
+    // and find the dependencies it may leave behind
+    const previous = await docClient.send(
+      new GetCommand({
+        TableName: queriesTable,
+        Key: { pk: connectionId, sk: request.subscriptionId },
+        ProjectionExpression: '#version, dependencies',
+        ExpressionAttributeNames: { '#version': 'version' },
+      }),
+    );
+    const previousVersion = previous.Item?.version as number | undefined;
+    const previousDependencies = (previous.Item?.dependencies ??
+      []) as string[];
+    const version = (previousVersion ?? 0) + 1;
+
     const now = Date.now();
     const ttl = Math.floor(now / 1000) + ttlSeconds;
 
-    // Store the subscription with queryMetadata
+    // Register the fields the subscription watches on each table first, so
+    // the stream handler probes them once its dependencies are stored
+    for (const [tableName, watched] of watchedFields) {
+      await registerWatchedFields(
+        docClient,
+        dependenciesTable,
+        tableName,
+        watched,
+        ttl,
+      );
+    }
+
+    // Store the subscription with its query metadata
     const queryEntry: QueryEntry = {
       pk: connectionId,
       sk: request.subscriptionId,
       connectionId,
       subscriptionId: request.subscriptionId,
-      queryMetadata: queryMetadata ?? {
-        tableName: '',
-        filterConditions: [],
-      },
-      lastResult: Array.isArray(result) ? result : [result],
+      path: request.path,
+      input: request.input,
+      ...(outputSchema && { outputSchema, rawResult }),
+      queries,
+      lastResult: result,
+      version,
       dependencies: dependencyKeys,
       createdAt: now,
       updatedAt: now,
       ttl,
     };
 
-    await docClient.send(
-      new PutCommand({
-        TableName: queriesTable,
-        Item: queryEntry,
-      }),
-    );
-
-    // Store dependency entries (inverted index)
-    for (const key of dependencyKeys) {
+    // Only replace the subscription as it was read above
+    try {
       await docClient.send(
         new PutCommand({
-          TableName: dependenciesTable,
-          Item: {
-            pk: key,
-            sk: `${connectionId}#${request.subscriptionId}`,
-            connectionId,
-            subscriptionId: request.subscriptionId,
-            ttl,
-          },
+          TableName: queriesTable,
+          Item: queryEntry,
+          ...(previousVersion === undefined
+            ? { ConditionExpression: 'attribute_not_exists(pk)' }
+            : {
+                ConditionExpression: '#version = :version',
+                ExpressionAttributeNames: { '#version': 'version' },
+                ExpressionAttributeValues: { ':version': previousVersion },
+              }),
         }),
       );
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.name === 'ConditionalCheckFailedException'
+      ) {
+        return null;
+      }
+      throw error;
     }
 
+    // Store dependency entries (inverted index), dropping those of the
+    // subscription it replaces that this one no longer has
+    const subscription = {
+      connectionId,
+      subscriptionId: request.subscriptionId,
+      ttl,
+    };
+    await storeDependencyEntries(
+      docClient,
+      dependenciesTable,
+      subscription,
+      dependencies,
+    );
+    await deleteDependencyEntries(
+      docClient,
+      dependenciesTable,
+      subscription,
+      previousDependencies.filter((key) => !dependencyKeys.includes(key)),
+    );
+
     console.log('Subscription created:', {
       connectionId,
       subscriptionId: request.subscriptionId,
-      queryMetadata: queryMetadata?.tableName,
+      tables: queries.map((q) => q.tableName),
       dependencies: dependencyKeys,
     });
 
@@ -229,9 +373,39 @@ export function createReactiveHandler<TContext>(
       type: 'snapshot',
       subscriptionId: request.subscriptionId,
       data: result,
+      version,
     };
   }
 
+  /**
+   * Count a connection's subscriptions, other than one being replaced
+   */
+  async function countOtherSubscriptions(
+    connectionId: string,
+    subscriptionId: string,
+  ): Promise<number> {
+    let count = 0;
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const response = await docClient.send(
+        new QueryCommand({
+          TableName: queriesTable,
+          KeyConditionExpression: 'pk = :cid',
+          ExpressionAttributeValues: { ':cid': connectionId },
+          ProjectionExpression: 'sk',
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+      for (const item of response.Items ?? []) {
+        if (item.sk !== subscriptionId) count++;
+      }
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return count;
+  }
+
   /**
    * Handle an unsubscribe request
    */
@@ -239,34 +413,11 @@ export function createReactiveHandler<TContext>(
     connectionId: string,
     request: UnsubscribeRequest,
   ): Promise<ReactiveResponse> {
-    // Get the subscription to find its dependencies
-    const subResponse = await docClient.send(
-      new GetCommand({
-        TableName: queriesTable,
-        Key: { pk: connectionId, sk: request.subscriptionId },
-      }),
-    );
-
-    if (subResponse.Item) {
-      const queryEntry = subResponse.Item as QueryEntry;
-
-      // Delete dependency entries
-      for (const key of queryEntry.dependencies ?? []) {
-        await docClient.send(
-          new DeleteCommand({
-            TableName: dependenciesTable,
-            Key: { pk: key, sk: `${connectionId}#${request.subscriptionId}` },
-          }),
-        );
-      }
-    }
-
-    // Delete the subscription
-    await docClient.send(
-      new DeleteCommand({
-        TableName: queriesTable,
-        Key: { pk: connectionId, sk: request.subscriptionId },
-      }),
+    await teardownSubscription(
+      docClient,
+      { queriesTable, dependenciesTable },
+      connectionId,
+      request.subscriptionId,
     );
 
     console.log('Subscription removed:', {
@@ -275,8 +426,8 @@ export function createReactiveHandler<TContext>(
     });
 
     return {
-      type: 'result',
-      data: { success: true },
+      type: 'unsubscribed',
+      subscriptionId: request.subscriptionId,
     };
   }
 
@@ -295,6 +446,7 @@ export function createReactiveHandler<TContext>(
 
     return {
       type: 'result',
+      callId: request.callId,
       data: result,
     };
   }
@@ -330,22 +482,26 @@ export function createReactiveHandler<TContext>(
    * Unregister a connection and clean up subscriptions
    */
   async function unregisterConnection(connectionId: string): Promise<void> {
-    // Delete the connection
-    await docClient.send(
-      new DeleteCommand({
-        TableName: connectionsTable,
-        Key: { connectionId },
-      }),
+    await teardownConnection(
+      docClient,
+      { connectionsTable, queriesTable, dependenciesTable },
+      connectionId,
     );
 
-    // TODO: Clean up all subscriptions for this connection
-
     console.log('Connection unregistered:', connectionId);
   }
 
   return {
     handleRequest,
+    handleUnsubscribe,
     registerConnection,
     unregisterConnection,
   };
 }
+
+/**
+ * Reactive handler returned by createReactiveHandler
+ */
+export type ReactiveHandler<TContext> = ReturnType<
+  typeof createReactiveHandler<TContext>
+>;
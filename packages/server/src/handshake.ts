@@ -0,0 +1,151 @@
+import {
+  type DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type {
+  ClientHelloMessage,
+  ConnectionEntry,
+  ProtocolFeature,
+  ServerHelloMessage,
+  ServerLimits,
+} from '@dynamodb-reactive/core';
+import {
+  MIN_PROTOCOL_VERSION,
+  negotiateFeatures,
+  negotiateProtocolVersion,
+  PROTOCOL_VERSION,
+} from '@dynamodb-reactive/core';
+
+import { ReactiveError } from './errors.js';
+
+/**
+ * Protocol features this server supports
+ */
+export const SERVER_FEATURES: readonly ProtocolFeature[] = [
+  'batching',
+  'sequenceNumbers',
+];
+
+/**
+ * Features the server supports when compression is configured
+ */
+const COMPRESSION_FEATURES: readonly ProtocolFeature[] = [
+  'compression',
+  'binaryFrames',
+];
+
+/**
+ * What the server offers in its hello
+ */
+export interface ServerHelloOptions {
+  limits?: ServerLimits;
+  /** Whether outgoing messages can be compressed into binary frames */
+  compression?: boolean;
+  /** How binary frames are compressed (default 'gzip') */
+  encoding?: 'gzip' | 'deflate';
+}
+
+/**
+ * Build the reply to a client hello: the server's protocol range, the
+ * features both ends support, the server's limits, and the encoding of
+ * binary frames if compression was agreed.
+ * The client compares the ranges and reports a mismatch.
+ */
+export function createServerHello(
+  hello: ClientHelloMessage,
+  options: ServerHelloOptions = {},
+): ServerHelloMessage {
+  const features = negotiateFeatures(
+    options.compression
+      ? [...SERVER_FEATURES, ...COMPRESSION_FEATURES]
+      : SERVER_FEATURES,
+    hello.features,
+  );
+  const compressed =
+    features.includes('compression') && features.includes('binaryFrames');
+
+  return {
+    type: 'hello',
+    protocolVersion: PROTOCOL_VERSION,
+    minProtocolVersion: MIN_PROTOCOL_VERSION,
+    features,
+    limits: options.limits ?? {},
+    ...(compressed && { encoding: options.encoding ?? 'gzip' }),
+  };
+}
+
+/**
+ * Answer a client hello and record the negotiated protocol version and
+ * features on the connection, for messages pushed to it later.
+ * Nothing is recorded when the versions are incompatible.
+ */
+export async function acceptHello(
+  docClient: DynamoDBDocumentClient,
+  connectionsTable: string,
+  connectionId: string,
+  hello: ClientHelloMessage,
+  options?: ServerHelloOptions,
+): Promise<ServerHelloMessage> {
+  const reply = createServerHello(hello, options);
+  const protocolVersion = negotiateProtocolVersion(hello, reply);
+
+  if (protocolVersion === null) {
+    console.warn('Incompatible protocol version:', {
+      connectionId,
+      client: [hello.minProtocolVersion, hello.protocolVersion],
+      server: [MIN_PROTOCOL_VERSION, PROTOCOL_VERSION],
+    });
+    return reply;
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: connectionsTable,
+        Key: { connectionId },
+        UpdateExpression:
+          'SET protocolVersion = :version, features = :features',
+        ConditionExpression: 'attribute_exists(connectionId)',
+        ExpressionAttributeValues: {
+          ':version': protocolVersion,
+          ':features': reply.features,
+        },
+      }),
+    );
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.name === 'ConditionalCheckFailedException'
+    ) {
+      throw new ReactiveError({
+        code: 'NOT_FOUND',
+        message: `Unknown connection '${connectionId}'`,
+        cause: error,
+      });
+    }
+    throw error;
+  }
+
+  return reply;
+}
+
+/**
+ * Load the features a connection negotiated in its hello.
+ * Returns undefined if the connection is unknown or hasn't sent one.
+ */
+export async function loadConnectionFeatures(
+  docClient: DynamoDBDocumentClient,
+  connectionsTable: string,
+  connectionId: string,
+): Promise<string[] | undefined> {
+  const response = await docClient.send(
+    new GetCommand({
+      TableName: connectionsTable,
+      Key: { connectionId },
+      ProjectionExpression: 'features',
+    }),
+  );
+  return (response.Item as Pick<ConnectionEntry, 'features'> | undefined)
+    ?.features;
+}
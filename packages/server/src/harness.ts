@@ -1,9 +1,19 @@
+import type { ServerLimits } from '@dynamodb-reactive/core';
+
 import type { DbContextConfig } from './db-context.js';
+import type { ReactiveHandlerConfig } from './handlers/reactive-handler.js';
+import type { CompressionOptions } from './payload.js';
+import type { Router } from './router.js';
 
 /**
  * Configuration for creating a reactive harness
  */
 export interface ReactiveHarnessConfig<TContext> {
+  /**
+   * The application router, used to execute subscribe and call requests
+   */
+  router: Router<TContext, any>;
+
   /**
    * Function to get the context for a connection
    * This is called on each request to build the procedure context
@@ -14,21 +24,52 @@ export interface ReactiveHarnessConfig<TContext> {
    * Optional database configuration
    */
   dbConfig?: DbContextConfig;
+
+  /**
+   * Called with every error before it is sent to the client
+   */
+  onError?: ReactiveHandlerConfig<TContext>['onError'];
+
+  /**
+   * What to do when a subscription depends on a whole table (a query with
+   * no filters). Defaults to 'warn'.
+   */
+  tableWideSubscriptions?: ReactiveHandlerConfig<TContext>['tableWideSubscriptions'];
+
+  /**
+   * Limits advertised to clients in the hello handshake.
+   * maxSubscriptions is enforced on subscribe, and messages larger than
+   * maxPayloadBytes (default 128 KB) are sent in chunks.
+   */
+  limits?: ServerLimits;
+
+  /**
+   * Compress large messages for clients that opt in during the hello
+   * (true for gzip above 1 KB)
+   */
+  compression?: boolean | CompressionOptions;
 }
 
 /**
  * The reactive harness object containing all configuration needed for the engine
  */
 export interface ReactiveHarness<TContext> {
+  router: Router<TContext, any>;
   getContext: (connectionId: string) => Promise<TContext>;
   dbConfig?: DbContextConfig;
+  onError?: ReactiveHandlerConfig<TContext>['onError'];
+  tableWideSubscriptions?: ReactiveHandlerConfig<TContext>['tableWideSubscriptions'];
+  limits?: ServerLimits;
+  compression?: boolean | CompressionOptions;
 }
 
 /**
  * Create a reactive harness that encapsulates the router and context configuration.
  *
  * This is the only export needed from user code for the ReactiveEngine.
- * The engine will use this harness to automatically create all WebSocket handlers.
+ * Pass the path of the module that default-exports it as the engine's
+ * `harness` prop, and the WebSocket message handler will execute
+ * subscribe and call requests with its router.
  *
  * @example
  * ```typescript
@@ -37,6 +78,7 @@ export interface ReactiveHarness<TContext> {
  * import { appRouter } from './router';
  *
  * export default createReactiveHarness({
+ *   router: appRouter,
  *   getContext: async (connectionId) => ({
  *     connectionId,
  *   }),
@@ -47,7 +89,12 @@ export function createReactiveHarness<TContext>(
   config: ReactiveHarnessConfig<TContext>,
 ): ReactiveHarness<TContext> {
   return {
+    router: config.router,
     getContext: config.getContext ?? (async () => ({}) as unknown as TContext),
     dbConfig: config.dbConfig,
+    onError: config.onError,
+    tableWideSubscriptions: config.tableWideSubscriptions,
+    limits: config.limits,
+    compression: config.compression,
   };
 }
@@ -5,31 +5,88 @@ export {
   type InferRouterType,
   initReactive,
   type ReactiveBuilder,
+  type RouterCaller,
 } from './reactive.js';
 
 // Router and Procedure
 export {
   executeProcedure,
+  type ExecuteProcedureOptions,
   isProcedure,
+  parseProcedureOutput,
   ProcedureBuilder,
 } from './procedure.js';
 export { createRouter, mergeRouters, Router } from './router.js';
 
+// Errors
+export {
+  createInputError,
+  getHttpStatusCode,
+  isTransientError,
+  ReactiveError,
+  type ReactiveErrorCode,
+  type ReactiveErrorIssue,
+  toReactiveError,
+} from './errors.js';
+
+// Connection teardown
+export {
+  type ConnectionTables,
+  teardownConnection,
+  teardownSubscription,
+} from './connection-teardown.js';
+
 // Database context
-export { createDbContext, type DbContextConfig } from './db-context.js';
+export {
+  createDbContext,
+  type DbContextConfig,
+  executeQueryOperation,
+} from './db-context.js';
 
 // Query building
-export { createFilterBuilder, QueryBuilderImpl } from './query-builder.js';
+export { decodeCursor, encodeCursor } from './cursor.js';
+export {
+  createFilterBuilder,
+  QueryBuilderImpl,
+  type QueryExecutionResult,
+  type QueryOptions,
+} from './query-builder.js';
 
 // Dependency extraction
 export {
+  collectWatchedFields,
   createDependencyKey,
+  createWatchedFields,
+  createWatchedFieldsKey,
   DependencyTracker,
   extractAffectedKeys,
   extractDependencies,
+  fromWatchedFieldEntries,
+  isTableWideDependency,
+  mergeWatchedFields,
   operationToQueryMetadata,
   parseDependencyKey,
+  queryMetadataToOperation,
+  toWatchedFieldEntries,
 } from './dependency-extractor.js';
+export {
+  type AffectedSubscription,
+  createWatchedFieldsCache,
+  deleteDependencyEntries,
+  findSubscriptionsByKeys,
+  loadWatchedFields,
+  registerWatchedFields,
+  storeDependencyEntries,
+} from './dependency-index.js';
+
+// Key condition building
+export {
+  buildKeyConditionQuery,
+  buildScanFilter,
+  isPartitionKeyPinned,
+  type KeyConditionQuery,
+  type ScanFilterQuery,
+} from './key-condition-builder.js';
 
 // PartiQL building
 export {
@@ -45,23 +102,50 @@ export {
 export {
   applyPatches,
   batchPatches,
+  findValuePath,
   generatePatches,
+  getKeyedArrays,
+  getValueAtPath,
   hasChanges,
+  type KeyedArray,
   optimizePatches,
+  setValueAtPath,
 } from './patcher.js';
 
+// Outgoing message size
+export {
+  type CompressionOptions,
+  type ConnectionEncodeOptions,
+  createEncodeOptionsLookup,
+  createUpdateMessage,
+  DEFAULT_MAX_PAYLOAD_BYTES,
+  encodeMessage,
+  type EncodeOptions,
+  MAX_CHUNKS,
+  postMessage,
+  postMessages,
+} from './payload.js';
+
 // Handlers
+export {
+  createFetchHandler,
+  type FetchHandlerConfig,
+  toLambdaUrlHandler,
+  toNodeHandler,
+} from './handlers/fetch-handler.js';
 export {
   type CallRequest,
   createReactiveHandler,
   type ErrorResponse,
   type PatchResponse,
+  type ReactiveHandler,
   type ReactiveHandlerConfig,
   type ReactiveRequest,
   type ReactiveResponse,
   type ResultResponse,
   type SnapshotResponse,
   type SubscribeRequest,
+  type UnsubscribedResponse,
   type UnsubscribeRequest,
 } from './handlers/reactive-handler.js';
 export {
@@ -78,6 +162,18 @@ export {
   type ReactiveHarnessConfig,
 } from './harness.js';
 
+// Protocol handshake
+export {
+  acceptHello,
+  createServerHello,
+  loadConnectionFeatures,
+  SERVER_FEATURES,
+  type ServerHelloOptions,
+} from './handshake.js';
+
+// Server rendering
+export { createServerHelpers } from './ssr.js';
+
 // Lambda handlers (for use by the generated entry point)
 export { createLambdaHandlers } from './handlers/lambda-handlers.js';
 
@@ -88,21 +184,34 @@ export {
   getRecordKey,
   sortRecords,
 } from './filter-evaluator.js';
+export {
+  applyItemChanges,
+  applyRecordChanges,
+  changeMatchesConditions,
+  type IncrementalResult,
+} from './stream-evaluator.js';
 
 // Type exports
 export type {
   AnyDynamoTable,
   AnyProcedureDefinition,
   DatabaseContext,
+  DehydratedState,
   FilterBuilder,
   FilterCondition,
+  Middleware,
+  MiddlewareResult,
   ProcedureContext,
   ProcedureDefinition,
   ProcedureType,
   QueryBuilder,
+  QueryCursor,
   QueryDependency,
+  QueryPage,
   RouterDefinition,
+  StreamRecordChange,
   TableItem,
   TableKeyInput,
   TrackedQueryOperation,
+  WatchedFields,
 } from './types.js';
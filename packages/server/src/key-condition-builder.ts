@@ -0,0 +1,246 @@
+import type { FilterCondition, TrackedQueryOperation } from './types.js';
+
+/**
+ * Expressions for a native DynamoDB Query
+ */
+export interface KeyConditionQuery {
+  keyConditionExpression: string;
+  filterExpression?: string;
+  expressionAttributeNames: Record<string, string>;
+  expressionAttributeValues: Record<string, unknown>;
+}
+
+/**
+ * Expressions for a native DynamoDB Scan
+ */
+export interface ScanFilterQuery {
+  filterExpression?: string;
+  expressionAttributeNames?: Record<string, string>;
+  expressionAttributeValues?: Record<string, unknown>;
+}
+
+/**
+ * Sort key operators that DynamoDB accepts in a key condition
+ */
+const SORT_KEY_COMPARISONS = new Set(['=', '<', '<=', '>', '>=']);
+
+/**
+ * Accumulates expression attribute placeholders
+ */
+class ExpressionContext {
+  readonly names: Record<string, string> = {};
+  readonly values: Record<string, unknown> = {};
+  private nameCount = 0;
+  private valueCount = 0;
+  private nameKeys = new Map<string, string>();
+
+  name(field: string): string {
+    let key = this.nameKeys.get(field);
+    if (!key) {
+      key = `#n${this.nameCount++}`;
+      this.nameKeys.set(field, key);
+      this.names[key] = field;
+    }
+    return key;
+  }
+
+  value(value: unknown): string {
+    const key = `:v${this.valueCount++}`;
+    this.values[key] = value;
+    return key;
+  }
+}
+
+/**
+ * Flatten top-level AND conditions into a single list
+ */
+function flattenAnd(filters: FilterCondition[]): FilterCondition[] {
+  return filters.flatMap((f) =>
+    f.type === 'logical' && f.operator === 'AND' && f.conditions
+      ? flattenAnd(f.conditions)
+      : [f],
+  );
+}
+
+/**
+ * Collect every field referenced by a condition
+ */
+function collectFields(condition: FilterCondition, fields: Set<string>): void {
+  if (condition.field) fields.add(condition.field);
+  for (const sub of condition.conditions ?? []) {
+    collectFields(sub, fields);
+  }
+}
+
+/**
+ * Check if a condition is an equality on the given field
+ */
+function isEquality(condition: FilterCondition, field: string): boolean {
+  return (
+    condition.type === 'comparison' &&
+    condition.operator === '=' &&
+    condition.field === field &&
+    condition.value !== undefined
+  );
+}
+
+/**
+ * Check if a condition can be used as a sort key condition
+ */
+function isSortKeyCondition(
+  condition: FilterCondition,
+  field: string,
+): boolean {
+  if (condition.field !== field) return false;
+  if (condition.type === 'comparison') {
+    return SORT_KEY_COMPARISONS.has(condition.operator);
+  }
+  return (
+    condition.type === 'function' &&
+    (condition.operator === 'BETWEEN' || condition.operator === 'begins_with')
+  );
+}
+
+/**
+ * Check whether filters pin a partition key with an equality condition
+ */
+export function isPartitionKeyPinned(
+  filters: FilterCondition[],
+  pkField: string,
+): boolean {
+  return flattenAnd(filters).some((f) => isEquality(f, pkField));
+}
+
+/**
+ * Converts a filter condition to a DynamoDB condition expression
+ */
+function conditionToExpression(
+  condition: FilterCondition,
+  context: ExpressionContext,
+): string {
+  switch (condition.type) {
+    case 'comparison': {
+      const name = context.name(condition.field!);
+      return `${name} ${condition.operator} ${context.value(condition.value)}`;
+    }
+
+    case 'function': {
+      const name = context.name(condition.field!);
+
+      if (condition.operator === 'BETWEEN') {
+        const lower = context.value(condition.value);
+        const upper = context.value(condition.value2);
+        return `${name} BETWEEN ${lower} AND ${upper}`;
+      }
+
+      if (condition.operator === 'begins_with') {
+        return `begins_with(${name}, ${context.value(condition.value)})`;
+      }
+
+      if (condition.operator === 'contains') {
+        return `contains(${name}, ${context.value(condition.value)})`;
+      }
+
+      throw new Error(`Unknown function operator: ${condition.operator}`);
+    }
+
+    case 'logical': {
+      if (!condition.conditions || condition.conditions.length === 0) {
+        throw new Error(
+          'Logical condition requires at least one sub-condition',
+        );
+      }
+
+      if (condition.operator === 'NOT') {
+        return `NOT (${conditionToExpression(condition.conditions[0], context)})`;
+      }
+
+      const subClauses = condition.conditions.map((c) =>
+        conditionToExpression(c, context),
+      );
+      return `(${subClauses.join(` ${condition.operator} `)})`;
+    }
+
+    default:
+      throw new Error(`Unknown condition type: ${condition.type}`);
+  }
+}
+
+/**
+ * Build a key-condition Query from a query operation.
+ *
+ * Uses the index key fields when querying a GSI, otherwise the table keys.
+ * Returns null when the filters don't pin the partition key, meaning the
+ * operation can only be served by a scan.
+ */
+export function buildKeyConditionQuery(
+  operation: TrackedQueryOperation,
+): KeyConditionQuery | null {
+  const pkField = operation.indexName
+    ? operation.indexPkField
+    : operation.pkField;
+  const skField = operation.indexName
+    ? operation.indexSkField
+    : operation.skField;
+
+  if (!pkField) return null;
+
+  const conditions = flattenAnd(operation.filters);
+  const pkIndex = conditions.findIndex((c) => isEquality(c, pkField));
+  if (pkIndex === -1) return null;
+
+  const context = new ExpressionContext();
+  const keyClauses = [conditionToExpression(conditions[pkIndex], context)];
+  const remaining = conditions.filter((_, i) => i !== pkIndex);
+
+  if (skField) {
+    const skIndex = remaining.findIndex((c) => isSortKeyCondition(c, skField));
+    if (skIndex !== -1) {
+      keyClauses.push(conditionToExpression(remaining[skIndex], context));
+      remaining.splice(skIndex, 1);
+    }
+  }
+
+  // DynamoDB rejects key attributes in a filter expression
+  const remainingFields = new Set<string>();
+  for (const condition of remaining) {
+    collectFields(condition, remainingFields);
+  }
+  for (const keyField of [pkField, skField]) {
+    if (keyField && remainingFields.has(keyField)) {
+      throw new Error(
+        `Key attribute '${keyField}' can only be constrained once in a key condition query; combine the conditions (e.g. with between())`,
+      );
+    }
+  }
+
+  const filterClauses = remaining.map((c) => conditionToExpression(c, context));
+
+  return {
+    keyConditionExpression: keyClauses.join(' AND '),
+    filterExpression:
+      filterClauses.length > 0 ? filterClauses.join(' AND ') : undefined,
+    expressionAttributeNames: context.names,
+    expressionAttributeValues: context.values,
+  };
+}
+
+/**
+ * Build the filter expression for scanning a query operation
+ */
+export function buildScanFilter(
+  operation: TrackedQueryOperation,
+): ScanFilterQuery {
+  if (operation.filters.length === 0) return {};
+
+  const context = new ExpressionContext();
+  const clauses = operation.filters.map((c) =>
+    conditionToExpression(c, context),
+  );
+
+  return {
+    filterExpression: clauses.join(' AND '),
+    expressionAttributeNames: context.names,
+    expressionAttributeValues: context.values,
+  };
+}
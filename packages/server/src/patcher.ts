@@ -1,20 +1,68 @@
-import type { JsonPatch } from '@dynamodb-reactive/core';
+import type { JsonPatch, QueryMetadata } from '@dynamodb-reactive/core';
 import jsonpatch, { type Operation } from 'fast-json-patch';
 
-const { applyPatch, compare } = jsonpatch;
+import { getRecordKey } from './filter-evaluator.js';
+
+const { applyPatch, compare, escapePathComponent, getValueByPointer } =
+  jsonpatch;
+
+/**
+ * An array of records in a document, diffed by record key rather than
+ * by position
+ */
+export interface KeyedArray {
+  /** JSON pointer to the array ('' is the whole document) */
+  path: string;
+  pkField: string;
+  skField?: string;
+}
 
 /**
  * Generate JSON patches between two objects
- * Uses RFC 6902 JSON Patch format
+ * Uses RFC 6902 JSON Patch format.
+ *
+ * Arrays listed in keyedArrays are diffed by record key: inserting,
+ * removing or reordering records produces add/remove/move operations,
+ * and changed records a replace per changed field, instead of a replace
+ * for every shifted index. Arrays whose records lack their key fields
+ * (or repeat a key) are diffed by position.
  */
 export function generatePatches(
   oldValue: unknown,
   newValue: unknown,
+  keyedArrays: KeyedArray[] = [],
 ): JsonPatch[] {
-  const operations = compare(
-    oldValue as Record<string, unknown>,
-    newValue as Record<string, unknown>,
-  );
+  // Documents that aren't objects (e.g. a null lookup result) can only be
+  // replaced whole
+  if (!isObject(oldValue) || !isObject(newValue)) {
+    return oldValue === newValue
+      ? []
+      : [{ op: 'replace', path: '', value: newValue }];
+  }
+
+  const keyedOperations: Operation[] = [];
+  let rest = oldValue;
+
+  for (const keyed of keyedArrays) {
+    const oldItems = tryGetValueAtPath(oldValue, keyed.path);
+    const newItems = tryGetValueAtPath(newValue, keyed.path);
+    if (!Array.isArray(oldItems) || !Array.isArray(newItems)) continue;
+
+    const operations = diffKeyedArray(oldItems, newItems, keyed);
+    if (!operations) continue;
+
+    keyedOperations.push(...operations);
+    // Diff the rest of the document as if the array were already updated
+    rest = setValueAtPath(rest, keyed.path, newItems);
+  }
+
+  const operations = [
+    ...keyedOperations,
+    ...compare(
+      rest as Record<string, unknown>,
+      newValue as Record<string, unknown>,
+    ),
+  ];
 
   return operations.map((op) => ({
     op: op.op as JsonPatch['op'],
@@ -24,6 +72,159 @@ export function generatePatches(
   }));
 }
 
+/**
+ * Keyed arrays for the query results in a subscription's output
+ */
+export function getKeyedArrays(queries: QueryMetadata[]): KeyedArray[] {
+  return queries.flatMap((query) =>
+    query.type !== 'get' &&
+    query.resultPath !== undefined &&
+    query.pkField !== undefined
+      ? [
+          {
+            path: query.resultPath,
+            pkField: query.pkField,
+            skField: query.skField,
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Diff two arrays of records by key. Returns null if a record lacks its
+ * key fields or a key repeats, so the arrays must be diffed by position.
+ *
+ * Operations apply in sequence: removals from the end, then moves and
+ * adds placing each record before its successor, walking backwards.
+ * Records in the longest run already in the new relative order stay put,
+ * so only the others are moved. Changed records are diffed field by field
+ * at their final index.
+ */
+function diffKeyedArray(
+  oldItems: unknown[],
+  newItems: unknown[],
+  keyed: KeyedArray,
+): Operation[] | null {
+  const oldKeys = getRecordKeys(oldItems, keyed);
+  const newKeys = getRecordKeys(newItems, keyed);
+  if (!oldKeys || !newKeys) return null;
+
+  const operations: Operation[] = [];
+  const newIndexes = new Map(newKeys.map((key, index) => [key, index]));
+  const oldIndexes = new Map(oldKeys.map((key, index) => [key, index]));
+
+  // Remove records that are gone, from the end so indexes stay valid
+  const current = [...oldKeys];
+  for (let i = current.length - 1; i >= 0; i--) {
+    if (!newIndexes.has(current[i])) {
+      operations.push({ op: 'remove', path: `${keyed.path}/${i}` });
+      current.splice(i, 1);
+    }
+  }
+
+  // Records that keep their relative order don't need to move
+  const keptIndexes = new Map(current.map((key, index) => [key, index]));
+  const stableKeys = new Set(
+    longestIncreasingRun(
+      newKeys
+        .filter((key) => keptIndexes.has(key))
+        .map((key) => keptIndexes.get(key)!),
+    ).map((index) => current[index]),
+  );
+
+  for (let j = newKeys.length - 1; j >= 0; j--) {
+    const key = newKeys[j];
+    if (stableKeys.has(key)) continue;
+
+    // Place the record right before its successor, or at the end
+    const successor = j + 1 < newKeys.length ? newKeys[j + 1] : undefined;
+    const from = current.indexOf(key);
+    if (from !== -1) current.splice(from, 1);
+    const to =
+      successor === undefined ? current.length : current.indexOf(successor);
+    current.splice(to, 0, key);
+
+    operations.push(
+      from === -1
+        ? { op: 'add', path: `${keyed.path}/${to}`, value: newItems[j] }
+        : {
+            op: 'move',
+            from: `${keyed.path}/${from}`,
+            path: `${keyed.path}/${to}`,
+          },
+    );
+  }
+
+  // Now in the new order; diff the fields of records that were kept
+  for (const [j, key] of newKeys.entries()) {
+    const i = oldIndexes.get(key);
+    if (i === undefined) continue;
+    for (const op of compare(
+      oldItems[i] as Record<string, unknown>,
+      newItems[j] as Record<string, unknown>,
+    )) {
+      operations.push({ ...op, path: `${keyed.path}/${j}${op.path}` });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Get the key of each record, or null if one lacks its key fields or
+ * a key repeats
+ */
+function getRecordKeys(items: unknown[], keyed: KeyedArray): string[] | null {
+  const keys: string[] = [];
+  const seen = new Set<string>();
+
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) return null;
+    const record = item as Record<string, unknown>;
+    if (
+      record[keyed.pkField] === undefined ||
+      (keyed.skField !== undefined && record[keyed.skField] === undefined)
+    ) {
+      return null;
+    }
+
+    const key = getRecordKey(record, keyed.pkField, keyed.skField);
+    if (seen.has(key)) return null;
+    seen.add(key);
+    keys.push(key);
+  }
+
+  return keys;
+}
+
+/**
+ * Longest strictly increasing subsequence of a sequence of numbers
+ */
+function longestIncreasingRun(sequence: number[]): number[] {
+  // tails[k] is the index of the smallest tail of a run of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  for (const [i, value] of sequence.entries()) {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sequence[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+
+  const run: number[] = [];
+  for (let i = tails.at(-1) ?? -1; i !== -1; i = previous[i]) {
+    run.unshift(sequence[i]);
+  }
+  return run;
+}
+
 /**
  * Apply JSON patches to an object
  * Returns the patched result
@@ -91,3 +292,72 @@ export function batchPatches(patchSets: JsonPatch[][]): JsonPatch[] {
   const allPatches = patchSets.flat();
   return optimizePatches(allPatches);
 }
+
+/**
+ * Find the JSON pointer at which a value appears in a document (by reference).
+ * Returns '' if the document is the value itself, or null if not found.
+ * Primitives (e.g. a null lookup result) only match the whole document.
+ */
+export function findValuePath(
+  document: unknown,
+  target: unknown,
+  maxDepth = 4,
+): string | null {
+  if (document === target) return '';
+  if (
+    maxDepth === 0 ||
+    typeof document !== 'object' ||
+    document === null ||
+    typeof target !== 'object' ||
+    target === null
+  ) {
+    return null;
+  }
+
+  for (const [key, value] of Object.entries(document)) {
+    const path = findValuePath(value, target, maxDepth - 1);
+    if (path !== null) {
+      return `/${escapePathComponent(key)}${path}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the value at a JSON pointer ('' is the whole document)
+ */
+export function getValueAtPath(document: unknown, path: string): unknown {
+  if (path === '') return document;
+  return getValueByPointer(document, path);
+}
+
+/**
+ * Whether a value is an object or array, which can be diffed by field
+ */
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Get the value at a JSON pointer, or undefined if the path doesn't exist
+ */
+function tryGetValueAtPath(document: unknown, path: string): unknown {
+  try {
+    return getValueAtPath(document, path);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Return a copy of the document with the value at a JSON pointer replaced
+ */
+export function setValueAtPath<T>(
+  document: T,
+  path: string,
+  value: unknown,
+): T {
+  if (path === '') return value as T;
+  return applyPatches(document, [{ op: 'replace', path, value }]);
+}
@@ -0,0 +1,338 @@
+import { randomUUID } from 'node:crypto';
+import { deflateSync, gzipSync } from 'node:zlib';
+
+import {
+  type ApiGatewayManagementApiClient,
+  PostToConnectionCommand,
+} from '@aws-sdk/client-apigatewaymanagementapi';
+import type { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import type {
+  ChunkMessage,
+  JsonPatch,
+  PatchMessage,
+  ServerMessage,
+  SnapshotMessage,
+} from '@dynamodb-reactive/core';
+
+import { ReactiveError } from './errors.js';
+import { loadConnectionFeatures } from './handshake.js';
+
+/**
+ * Largest message API Gateway accepts on a WebSocket connection
+ */
+export const DEFAULT_MAX_PAYLOAD_BYTES = 128 * 1024;
+
+/**
+ * Most chunks a message may be split into before it is rejected
+ */
+export const MAX_CHUNKS = 32;
+
+/**
+ * Connections whose negotiated features a Lambda keeps in memory
+ */
+const MAX_CACHED_CONNECTIONS = 10_000;
+
+/**
+ * Compression of outgoing messages, for connections that negotiated it
+ */
+export interface CompressionOptions {
+  /** @default 'gzip' */
+  encoding?: 'gzip' | 'deflate';
+  /**
+   * Messages smaller than this are sent as text
+   * @default 1024
+   */
+  thresholdBytes?: number;
+}
+
+/**
+ * How outgoing messages are encoded
+ */
+export interface EncodeOptions {
+  /** @default DEFAULT_MAX_PAYLOAD_BYTES */
+  maxPayloadBytes?: number;
+  /** Compress large frames into binary frames */
+  compression?: CompressionOptions;
+}
+
+/**
+ * Options to encode messages for a particular connection
+ */
+export interface ConnectionEncodeOptions extends EncodeOptions {
+  /** Whether the connection accepts several messages in one frame */
+  batching: boolean;
+}
+
+/**
+ * Serialize a message (or a batch of messages, for clients that
+ * negotiated batching) into frames of at most maxPayloadBytes each.
+ * A message that doesn't fit is split into chunk messages carrying slices
+ * of its JSON, which the client joins back together. With compression,
+ * frames over the threshold are sent as compressed binary frames; a
+ * message is only chunked if it doesn't fit even when compressed.
+ * Throws a PAYLOAD_TOO_LARGE error if it needs more than MAX_CHUNKS.
+ */
+export function encodeMessage(
+  message: ServerMessage | ServerMessage[],
+  options: EncodeOptions = {},
+): (string | Buffer)[] {
+  const maxBytes = options.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES;
+  const { compression } = options;
+
+  const json = JSON.stringify(message);
+  const size = Buffer.byteLength(json);
+  if (size <= maxBytes) {
+    return [compression ? compressFrame(json, compression) : json];
+  }
+
+  if (compression) {
+    const compressed = compressFrame(json, compression);
+    if (compressed.length <= maxBytes) return [compressed];
+  }
+
+  const chunks = splitIntoChunks(json, size, maxBytes);
+  return compression
+    ? chunks.map((chunk) => compressFrame(chunk, compression))
+    : chunks;
+}
+
+/**
+ * Split a message's JSON into chunk messages of at most maxBytes each
+ */
+function splitIntoChunks(
+  json: string,
+  size: number,
+  maxBytes: number,
+): string[] {
+  const tooLarge = () =>
+    new ReactiveError({
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Message of ${size} bytes exceeds the limit of ${MAX_CHUNKS} chunks of ${maxBytes} bytes`,
+    });
+
+  const chunkId = randomUUID();
+  const slices: string[] = [];
+  let start = 0;
+  while (start < json.length) {
+    if (slices.length === MAX_CHUNKS) throw tooLarge();
+
+    // Shrink the slice until its chunk fits; escaping can grow the data
+    let length = json.length - start;
+    for (;;) {
+      const bytes = chunkBytes(chunkId, json.slice(start, start + length));
+      if (bytes <= maxBytes) break;
+      length = Math.floor((length * maxBytes) / bytes) - 1;
+      if (length <= 0) throw tooLarge();
+    }
+
+    slices.push(json.slice(start, start + length));
+    start += length;
+  }
+
+  return slices.map((data, index) =>
+    JSON.stringify({
+      type: 'chunk',
+      chunkId,
+      index,
+      count: slices.length,
+      data,
+    } satisfies ChunkMessage),
+  );
+}
+
+/**
+ * Compress a frame over the threshold, unless that doesn't shrink it
+ */
+function compressFrame(
+  frame: string,
+  options: CompressionOptions,
+): string | Buffer {
+  const bytes = Buffer.from(frame);
+  if (bytes.length < (options.thresholdBytes ?? 1024)) return frame;
+
+  const compressed =
+    options.encoding === 'deflate' ? deflateSync(bytes) : gzipSync(bytes);
+  return compressed.length < bytes.length ? compressed : frame;
+}
+
+/**
+ * Size of a chunk carrying data, with the largest index and count
+ */
+function chunkBytes(chunkId: string, data: string): number {
+  return Buffer.byteLength(
+    JSON.stringify({
+      type: 'chunk',
+      chunkId,
+      index: MAX_CHUNKS,
+      count: MAX_CHUNKS,
+      data,
+    } satisfies ChunkMessage),
+  );
+}
+
+/**
+ * Build the message for a subscription update: its patches, or the whole
+ * new result when the patches exceed maxBytes and the result is smaller
+ */
+export function createUpdateMessage(
+  subscriptionId: string,
+  patches: JsonPatch[],
+  data: unknown,
+  versions: { fromVersion: number; toVersion: number },
+  maxBytes = DEFAULT_MAX_PAYLOAD_BYTES,
+): PatchMessage | SnapshotMessage {
+  const patch: PatchMessage = {
+    type: 'patch',
+    subscriptionId,
+    patches,
+    ...versions,
+  };
+  const patchBytes = Buffer.byteLength(JSON.stringify(patch));
+  if (patchBytes <= maxBytes) return patch;
+
+  const snapshot: SnapshotMessage = {
+    type: 'snapshot',
+    subscriptionId,
+    data,
+    version: versions.toVersion,
+  };
+  return Buffer.byteLength(JSON.stringify(snapshot)) < patchBytes
+    ? snapshot
+    : patch;
+}
+
+/**
+ * Send a message to a WebSocket connection, in chunks if needed.
+ * A message too large even for chunking is replaced by a
+ * PAYLOAD_TOO_LARGE error for the subscription or call it belongs to.
+ */
+export async function postMessage(
+  apiClient: ApiGatewayManagementApiClient,
+  connectionId: string,
+  message: ServerMessage,
+  options: EncodeOptions = {},
+): Promise<void> {
+  let frames: (string | Buffer)[];
+  try {
+    frames = encodeMessage(message, options);
+  } catch (error) {
+    if (!(error instanceof ReactiveError)) throw error;
+
+    console.error(`Not sending ${message.type} to ${connectionId}:`, error);
+    frames = encodeMessage(
+      {
+        type: 'error',
+        code: error.code,
+        message: error.message,
+        ...('subscriptionId' in message && {
+          subscriptionId: message.subscriptionId,
+        }),
+        ...('callId' in message && { callId: message.callId }),
+      },
+      options,
+    );
+  }
+
+  for (const frame of frames) {
+    await apiClient.send(
+      new PostToConnectionCommand({
+        ConnectionId: connectionId,
+        Data: typeof frame === 'string' ? Buffer.from(frame) : frame,
+      }),
+    );
+  }
+}
+
+/**
+ * Send several messages to a WebSocket connection in order: in one frame
+ * if it negotiated batching, unless the batch is too large even for
+ * chunking, and one by one otherwise.
+ * onDelivered is called for each message once all of its frames are sent,
+ * so a caller can tell how far sending got if it fails.
+ */
+export async function postMessages(
+  apiClient: ApiGatewayManagementApiClient,
+  connectionId: string,
+  messages: ServerMessage[],
+  options: ConnectionEncodeOptions,
+  onDelivered?: (message: ServerMessage) => void,
+): Promise<void> {
+  if (options.batching && messages.length > 1) {
+    let frames: (string | Buffer)[] | undefined;
+    try {
+      frames = encodeMessage(messages, options);
+    } catch (error) {
+      if (!(error instanceof ReactiveError)) throw error;
+    }
+
+    if (frames) {
+      for (const frame of frames) {
+        await apiClient.send(
+          new PostToConnectionCommand({
+            ConnectionId: connectionId,
+            Data: typeof frame === 'string' ? Buffer.from(frame) : frame,
+          }),
+        );
+      }
+      // The client only handles a batch once it has every frame
+      messages.forEach((message) => onDelivered?.(message));
+      return;
+    }
+  }
+
+  for (const message of messages) {
+    await postMessage(apiClient, connectionId, message, options);
+    onDelivered?.(message);
+  }
+}
+
+/**
+ * Create a per-Lambda lookup of the options to encode messages for a
+ * connection with, from the features it negotiated in its hello:
+ * compression (if configured) only with compressed binary frames, and
+ * batching. Features are cached once the handshake is done.
+ */
+export function createEncodeOptionsLookup(
+  docClient: DynamoDBDocumentClient,
+  connectionsTable: string,
+  options: { maxPayloadBytes?: number; compression?: CompressionOptions },
+) {
+  const negotiated = new Map<string, string[]>();
+
+  async function getFeatures(connectionId: string): Promise<string[]> {
+    const cached = negotiated.get(connectionId);
+    if (cached) return cached;
+
+    try {
+      const features = await loadConnectionFeatures(
+        docClient,
+        connectionsTable,
+        connectionId,
+      );
+      // Before the hello is recorded, look again next time
+      if (!features) return [];
+
+      if (negotiated.size >= MAX_CACHED_CONNECTIONS) negotiated.clear();
+      negotiated.set(connectionId, features);
+      return features;
+    } catch (error) {
+      console.error('Error loading connection features:', error);
+      return [];
+    }
+  }
+
+  return async function getEncodeOptions(
+    connectionId: string,
+  ): Promise<ConnectionEncodeOptions> {
+    const { maxPayloadBytes, compression } = options;
+    const features = await getFeatures(connectionId);
+    const compressed =
+      features.includes('compression') && features.includes('binaryFrames');
+
+    return {
+      maxPayloadBytes,
+      ...(compression && compressed && { compression }),
+      batching: features.includes('batching'),
+    };
+  };
+}
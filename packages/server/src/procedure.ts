@@ -1,18 +1,57 @@
 import type { z } from 'zod';
 
-import type { DatabaseContext, ProcedureDefinition } from './types.js';
+import { createInputError, ReactiveError } from './errors.js';
+import type {
+  DatabaseContext,
+  Middleware,
+  MiddlewareResult,
+  ProcedureDefinition,
+} from './types.js';
+
+/**
+ * Merge a middleware's context override into the context type
+ */
+type Overwrite<T, TOverride> = Omit<T, keyof TOverride> & TOverride;
+
+/**
+ * What a resolver must return, given the output schema
+ */
+type ResolverOutput<TOutputSchema> = TOutputSchema extends z.ZodTypeAny
+  ? z.input<TOutputSchema>
+  : unknown;
+
+/**
+ * Output type of a procedure, given the output schema and resolver output
+ */
+type ProcedureOutput<TOutputSchema, TOutput> =
+  TOutputSchema extends z.ZodTypeAny ? z.output<TOutputSchema> : TOutput;
 
 /**
  * Procedure builder for creating type-safe procedures
+ *
+ * Builders are immutable, so a partially configured builder (e.g. one with
+ * auth middleware) can be shared as the base of many procedures.
  */
 export class ProcedureBuilder<
   TContext,
   TInput extends z.ZodType = z.ZodUndefined,
+  TResolverContext = TContext,
+  TOutputSchema extends z.ZodTypeAny | undefined = undefined,
 > {
   private inputSchema?: TInput;
+  private outputSchema?: TOutputSchema;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private middlewares: Middleware<any, any>[];
 
-  constructor(inputSchema?: TInput) {
+  constructor(
+    inputSchema?: TInput,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    middlewares: Middleware<any, any>[] = [],
+    outputSchema?: TOutputSchema,
+  ) {
     this.inputSchema = inputSchema;
+    this.middlewares = middlewares;
+    this.outputSchema = outputSchema;
   }
 
   /**
@@ -20,39 +59,111 @@ export class ProcedureBuilder<
    */
   input<TNewInput extends z.ZodType>(
     schema: TNewInput,
-  ): ProcedureBuilder<TContext, TNewInput> {
-    return new ProcedureBuilder<TContext, TNewInput>(schema);
+  ): ProcedureBuilder<TContext, TNewInput, TResolverContext, TOutputSchema> {
+    return new ProcedureBuilder<
+      TContext,
+      TNewInput,
+      TResolverContext,
+      TOutputSchema
+    >(schema, this.middlewares, this.outputSchema);
+  }
+
+  /**
+   * Define the output schema for the procedure. Results are validated and
+   * stripped to the schema before they are sent to the client, including
+   * results recomputed from stream changes (which are recomputed from the
+   * raw output, then parsed).
+   */
+  output<TNewOutputSchema extends z.ZodTypeAny>(
+    schema: TNewOutputSchema,
+  ): ProcedureBuilder<TContext, TInput, TResolverContext, TNewOutputSchema> {
+    return new ProcedureBuilder<
+      TContext,
+      TInput,
+      TResolverContext,
+      TNewOutputSchema
+    >(this.inputSchema, this.middlewares, schema);
+  }
+
+  /**
+   * Add a middleware. Context it passes to next() is merged into the
+   * context of later middleware and the resolver.
+   *
+   * @example
+   * ```ts
+   * const authed = t.procedure.use(async ({ ctx, next }) => {
+   *   const user = await getUser(ctx.sessionId);
+   *   if (!user) throw new ReactiveError({ code: 'UNAUTHORIZED' });
+   *   return next({ ctx: { user } });
+   * });
+   * ```
+   */
+  use<TContextOverride extends object>(
+    middleware: Middleware<TResolverContext, TContextOverride>,
+  ): ProcedureBuilder<
+    TContext,
+    TInput,
+    Overwrite<TResolverContext, TContextOverride>,
+    TOutputSchema
+  > {
+    return new ProcedureBuilder<
+      TContext,
+      TInput,
+      Overwrite<TResolverContext, TContextOverride>,
+      TOutputSchema
+    >(this.inputSchema, [...this.middlewares, middleware], this.outputSchema);
   }
 
   /**
    * Define a query procedure (read-only operation)
    */
-  query<TOutput>(
+  query<TOutput extends ResolverOutput<TOutputSchema>>(
     resolver: (opts: {
-      ctx: TContext & { db: DatabaseContext };
+      ctx: TResolverContext & { db: DatabaseContext };
       input: z.infer<TInput>;
     }) => Promise<TOutput> | TOutput,
-  ): ProcedureDefinition<TContext, TInput, TOutput> {
+  ): ProcedureDefinition<
+    TContext,
+    TInput,
+    ProcedureOutput<TOutputSchema, TOutput>
+  > {
     return {
       type: 'query',
       inputSchema: this.inputSchema,
-      resolver,
+      outputSchema: this.outputSchema,
+      middlewares: this.middlewares,
+      // Middleware provides the narrowed context at runtime
+      resolver: resolver as unknown as ProcedureDefinition<
+        TContext,
+        TInput,
+        ProcedureOutput<TOutputSchema, TOutput>
+      >['resolver'],
     };
   }
 
   /**
    * Define a mutation procedure (write operation)
    */
-  mutation<TOutput>(
+  mutation<TOutput extends ResolverOutput<TOutputSchema>>(
     resolver: (opts: {
-      ctx: TContext & { db: DatabaseContext };
+      ctx: TResolverContext & { db: DatabaseContext };
       input: z.infer<TInput>;
     }) => Promise<TOutput> | TOutput,
-  ): ProcedureDefinition<TContext, TInput, TOutput> {
+  ): ProcedureDefinition<
+    TContext,
+    TInput,
+    ProcedureOutput<TOutputSchema, TOutput>
+  > {
     return {
       type: 'mutation',
       inputSchema: this.inputSchema,
-      resolver,
+      outputSchema: this.outputSchema,
+      middlewares: this.middlewares,
+      resolver: resolver as unknown as ProcedureDefinition<
+        TContext,
+        TInput,
+        ProcedureOutput<TOutputSchema, TOutput>
+      >['resolver'],
     };
   }
 }
@@ -73,7 +184,45 @@ export function isProcedure(
 }
 
 /**
- * Execute a procedure with the given context and input
+ * Options for executing a procedure
+ */
+export interface ExecuteProcedureOptions {
+  /** Procedure path, passed to middleware */
+  path?: string;
+  /**
+   * Validate the result against the output schema (default true).
+   * Subscriptions disable this to locate query results in the raw output,
+   * then validate with parseProcedureOutput.
+   */
+  validateOutput?: boolean;
+}
+
+/**
+ * Validate and strip a procedure result against its output schema.
+ * Returns the result unchanged when the procedure has no output schema.
+ */
+export function parseProcedureOutput(
+  procedure: ProcedureDefinition<any, any, any>,
+  output: unknown,
+): unknown {
+  if (!procedure.outputSchema) return output;
+
+  const parseResult = procedure.outputSchema.safeParse(output);
+  if (!parseResult.success) {
+    // Details stay on the server; the output shape is the procedure's concern
+    throw new ReactiveError({
+      code: 'INTERNAL',
+      message: 'Procedure output does not match its output schema',
+      cause: parseResult.error,
+    });
+  }
+  return parseResult.data;
+}
+
+/**
+ * Execute a procedure with the given context and input.
+ * Runs the middleware chain, then validates the input and calls the resolver.
+ * The result is validated against the output schema after the chain.
  */
 export async function executeProcedure<
   TContext,
@@ -83,19 +232,54 @@ export async function executeProcedure<
   procedure: ProcedureDefinition<TContext, TInput, TOutput>,
   ctx: TContext & { db: DatabaseContext },
   rawInput: unknown,
+  options: ExecuteProcedureOptions = {},
 ): Promise<TOutput> {
-  // Validate input if schema is defined
-  let input: z.infer<TInput>;
-  if (procedure.inputSchema) {
-    const parseResult = procedure.inputSchema.safeParse(rawInput);
-    if (!parseResult.success) {
-      throw new Error(`Invalid input: ${parseResult.error.message}`);
+  const { path = '', validateOutput = true } = options;
+  const middlewares = procedure.middlewares ?? [];
+
+  async function callResolver(
+    resolverCtx: TContext & { db: DatabaseContext },
+  ): Promise<TOutput> {
+    // Validate input if schema is defined
+    let input: z.infer<TInput>;
+    if (procedure.inputSchema) {
+      const parseResult = procedure.inputSchema.safeParse(rawInput);
+      if (!parseResult.success) {
+        throw createInputError(parseResult.error);
+      }
+      input = parseResult.data;
+    } else {
+      input = rawInput as z.infer<TInput>;
     }
-    input = parseResult.data;
-  } else {
-    input = rawInput as z.infer<TInput>;
+
+    // Execute the resolver
+    return procedure.resolver({ ctx: resolverCtx, input });
   }
 
-  // Execute the resolver
-  return procedure.resolver({ ctx, input });
+  async function callMiddleware(
+    index: number,
+    currentCtx: TContext & { db: DatabaseContext },
+  ): Promise<MiddlewareResult<unknown>> {
+    const middleware = middlewares[index];
+    if (!middleware) {
+      return { data: await callResolver(currentCtx) };
+    }
+
+    return middleware({
+      ctx: currentCtx,
+      input: rawInput,
+      path,
+      type: procedure.type,
+      next: <TNextOverride extends object>(opts?: { ctx: TNextOverride }) =>
+        callMiddleware(
+          index + 1,
+          opts ? { ...currentCtx, ...opts.ctx } : currentCtx,
+        ) as Promise<MiddlewareResult<TNextOverride>>,
+    });
+  }
+
+  const result = await callMiddleware(0, ctx);
+  return (
+    validateOutput ? parseProcedureOutput(procedure, result.data) : result.data
+  ) as TOutput;
 }
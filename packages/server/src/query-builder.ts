@@ -1,5 +1,12 @@
-import type { FieldRef } from '@dynamodb-reactive/core';
+import type {
+  FieldRef,
+  IndexDefinition,
+  QueryCursor,
+  QueryPage,
+} from '@dynamodb-reactive/core';
 
+import { decodeCursor, encodeCursor } from './cursor.js';
+import { isPartitionKeyPinned } from './key-condition-builder.js';
 import type {
   AnyDynamoTable,
   FilterBuilder,
@@ -118,17 +125,26 @@ class FilterBuilderImpl<
 type QueryExecutor<TTable extends AnyDynamoTable> = (
   operation: TrackedQueryOperation,
   options: QueryOptions,
-) => Promise<TableItem<TTable>[]>;
+) => Promise<QueryExecutionResult<TableItem<TTable>>>;
 
 /**
  * Query options
  */
-interface QueryOptions {
+export interface QueryOptions {
   limit?: number;
   startKey?: Record<string, unknown>;
   ascending: boolean;
 }
 
+/**
+ * Raw result of executing a query
+ */
+export interface QueryExecutionResult<T> {
+  items: T[];
+  /** Key to continue from, if more results may exist */
+  lastEvaluatedKey?: Record<string, unknown>;
+}
+
 /**
  * Implementation of QueryBuilder
  */
@@ -139,15 +155,19 @@ export class QueryBuilderImpl<
   private filters: FilterCondition[] = [];
   private indexName?: string;
   private limit?: number;
-  private startKey?: TableKeyInput<TTable>;
+  private startKey?: Record<string, unknown>;
   private ascending: boolean = true;
+  private scanAllowed: boolean = false;
   private executor: QueryExecutor<TTable>;
-  private operationTracker?: (op: TrackedQueryOperation) => void;
+  private operationTracker?: (
+    op: TrackedQueryOperation,
+    result: unknown[],
+  ) => void;
 
   constructor(
     table: TTable,
     executor: QueryExecutor<TTable>,
-    operationTracker?: (op: TrackedQueryOperation) => void,
+    operationTracker?: (op: TrackedQueryOperation, result: unknown[]) => void,
   ) {
     this.table = table;
     this.executor = executor;
@@ -173,8 +193,16 @@ export class QueryBuilderImpl<
     return this;
   }
 
-  startFrom(key: TableKeyInput<TTable>): QueryBuilder<TTable> {
-    this.startKey = key;
+  startFrom(
+    position: TableKeyInput<TTable> | QueryCursor | null | undefined,
+  ): QueryBuilder<TTable> {
+    if (position === null || position === undefined) {
+      this.startKey = undefined;
+    } else if (typeof position === 'string') {
+      this.startKey = decodeCursor(position);
+    } else {
+      this.startKey = position as Record<string, unknown>;
+    }
     return this;
   }
 
@@ -188,30 +216,53 @@ export class QueryBuilderImpl<
     return this;
   }
 
+  allowScan(): QueryBuilder<TTable> {
+    this.scanAllowed = true;
+    return this;
+  }
+
   async execute(): Promise<TableItem<TTable>[]> {
-    const operation: TrackedQueryOperation = {
-      tableName: this.table.tableName,
-      filters: this.filters,
-      indexName: this.indexName,
-      pkField: this.table.pk,
-      skField: this.table.sk,
-      sortField: this.table.sk, // Default sort by SK if available
-      sortOrder: this.ascending ? 'asc' : 'desc',
-      limit: this.limit,
+    const { items } = await this.run(false);
+    return items;
+  }
+
+  async executePage(): Promise<QueryPage<TableItem<TTable>>> {
+    const { items, lastEvaluatedKey } = await this.run(true);
+    return {
+      items,
+      nextCursor: lastEvaluatedKey ? encodeCursor(lastEvaluatedKey) : null,
     };
+  }
 
-    // Track the operation for dependency extraction
-    if (this.operationTracker) {
-      this.operationTracker(operation);
-    }
+  /**
+   * Execute the query and track it for dependency extraction
+   */
+  private async run(
+    paged: boolean,
+  ): Promise<QueryExecutionResult<TableItem<TTable>>> {
+    const operation = this.getOperation();
 
     const options: QueryOptions = {
       limit: this.limit,
-      startKey: this.startKey as Record<string, unknown>,
+      startKey: this.startKey,
       ascending: this.ascending,
     };
 
-    return this.executor(operation, options);
+    const result = await this.executor(operation, options);
+
+    // Track the operation (and the items it returned) for dependency extraction
+    if (this.operationTracker) {
+      this.operationTracker(
+        {
+          ...operation,
+          paged: paged || undefined,
+          endKey: paged ? result.lastEvaluatedKey : undefined,
+        },
+        result.items,
+      );
+    }
+
+    return result;
   }
 
   /**
@@ -219,17 +270,55 @@ export class QueryBuilderImpl<
    * Used for dependency extraction
    */
   getOperation(): TrackedQueryOperation {
+    const index = this.resolveIndex();
+    const keys = index ?? this.table;
+    // Queries return items ordered by the sort key; scans in no set order
+    const scan = !isPartitionKeyPinned(this.filters, keys.pk);
+
     return {
       tableName: this.table.tableName,
       filters: this.filters,
-      indexName: this.indexName,
+      indexName: index?.name,
       pkField: this.table.pk,
       skField: this.table.sk,
-      sortField: this.table.sk,
+      indexPkField: index?.pk,
+      indexSkField: index?.sk,
+      allowScan: this.scanAllowed,
+      sortField: scan ? undefined : keys.sk,
       sortOrder: this.ascending ? 'asc' : 'desc',
       limit: this.limit,
+      startKey: this.startKey,
     };
   }
+
+  /**
+   * Resolve the index to query.
+   * Uses the index from useIndex() if set (by key or name). Otherwise, when
+   * the table partition key isn't pinned, picks an index whose partition key is.
+   */
+  private resolveIndex(): IndexDefinition | undefined {
+    const indexes = Object.entries(this.table.indexes);
+
+    if (this.indexName) {
+      const index =
+        this.table.indexes[this.indexName] ??
+        indexes.find(([, i]) => i.name === this.indexName)?.[1];
+      if (!index) {
+        throw new Error(
+          `Index '${this.indexName}' is not defined on table ${this.table.tableName}`,
+        );
+      }
+      return index;
+    }
+
+    if (isPartitionKeyPinned(this.filters, this.table.pk)) {
+      return undefined;
+    }
+
+    return indexes.find(([, i]) =>
+      isPartitionKeyPinned(this.filters, i.pk),
+    )?.[1];
+  }
 }
 
 /**
@@ -3,7 +3,11 @@ import type { z } from 'zod';
 import { ProcedureBuilder } from './procedure.js';
 import type { Router } from './router.js';
 import { createRouter } from './router.js';
-import type { RouterDefinition } from './types.js';
+import type {
+  AnyProcedureDefinition,
+  Middleware,
+  RouterDefinition,
+} from './types.js';
 
 /**
  * ReactiveBuilder - The main builder returned by initReactive
@@ -14,6 +18,13 @@ export interface ReactiveBuilder<TContext> {
    */
   procedure: ProcedureBuilder<TContext>;
 
+  /**
+   * Define a reusable middleware for procedure.use()
+   */
+  middleware<TContextOverride extends object>(
+    middleware: Middleware<TContext, TContextOverride>,
+  ): Middleware<TContext, TContextOverride>;
+
   /**
    * Create a router from procedure definitions
    */
@@ -49,6 +60,10 @@ export function initReactive<
   return {
     procedure: new ProcedureBuilder<TContext>(),
 
+    middleware(middleware) {
+      return middleware;
+    },
+
     router<TRouter extends RouterDefinition<TContext>>(
       definition: TRouter,
     ): Router<TContext, TRouter> {
@@ -68,9 +83,9 @@ export type InferRouterType<T> =
 /**
  * Type helper to get procedure input type
  */
-export type InferProcedureInput<T> = T extends { inputSchema: infer TSchema }
-  ? TSchema extends z.ZodType
-    ? z.infer<TSchema>
+export type InferProcedureInput<T> = T extends { inputSchema?: infer TSchema }
+  ? NonNullable<TSchema> extends z.ZodType
+    ? z.infer<NonNullable<TSchema>>
     : undefined
   : undefined;
 
@@ -82,3 +97,17 @@ export type InferProcedureOutput<T> = T extends {
 }
   ? Awaited<TOutput>
   : unknown;
+
+/**
+ * Typed caller for a router definition, mirroring its nesting.
+ * Procedures without a required input can be called without arguments.
+ */
+export type RouterCaller<TRouter> = {
+  [K in keyof TRouter]: TRouter[K] extends AnyProcedureDefinition<any>
+    ? (
+        ...args: undefined extends InferProcedureInput<TRouter[K]>
+          ? [input?: InferProcedureInput<TRouter[K]>]
+          : [input: InferProcedureInput<TRouter[K]>]
+      ) => Promise<InferProcedureOutput<TRouter[K]>>
+    : RouterCaller<TRouter[K]>;
+};
@@ -1,4 +1,12 @@
-import { executeProcedure, isProcedure } from './procedure.js';
+import { createDbContext, type DbContextConfig } from './db-context.js';
+import { ReactiveError } from './errors.js';
+import {
+  executeProcedure,
+  type ExecuteProcedureOptions,
+  isProcedure,
+  parseProcedureOutput,
+} from './procedure.js';
+import type { RouterCaller } from './reactive.js';
 import type {
   DatabaseContext,
   ProcedureDefinition,
@@ -43,13 +51,74 @@ export class Router<TContext, TRouter extends RouterDefinition<TContext>> {
     path: string,
     ctx: TContext & { db: DatabaseContext },
     input: unknown,
+    options: Pick<ExecuteProcedureOptions, 'validateOutput'> = {},
   ): Promise<unknown> {
+    return executeProcedure(this.requireProcedure(path), ctx, input, {
+      ...options,
+      path,
+    });
+  }
+
+  /**
+   * Validate and strip a result against a procedure's output schema
+   */
+  parseOutput(path: string, output: unknown): unknown {
+    return parseProcedureOutput(this.requireProcedure(path), output);
+  }
+
+  /**
+   * Check if a procedure declares an output schema
+   */
+  hasOutputSchema(path: string): boolean {
+    return this.getProcedure(path)?.outputSchema !== undefined;
+  }
+
+  /**
+   * Get a procedure by its path, throwing NOT_FOUND when missing
+   */
+  private requireProcedure(
+    path: string,
+  ): ProcedureDefinition<TContext, any, any> {
     const procedure = this.getProcedure(path);
     if (!procedure) {
-      throw new Error(`Procedure not found: ${path}`);
+      throw new ReactiveError({
+        code: 'NOT_FOUND',
+        message: `Procedure not found: ${path}`,
+      });
     }
+    return procedure;
+  }
+
+  /**
+   * Create a typed caller that runs procedures in-process, e.g. for SSR or
+   * tests. Middleware and input/output validation run as for any request.
+   * Pass the harness (or any `{ dbConfig }`) to configure the database.
+   *
+   * @example
+   * ```ts
+   * const caller = appRouter.createCaller({ userId }, harness);
+   * const todos = await caller.todos.list({ taskListId });
+   * ```
+   */
+  createCaller(
+    ctx: TContext,
+    options: { dbConfig?: DbContextConfig } = {},
+  ): RouterCaller<TRouter> {
+    const db = createDbContext(options.dbConfig ?? {});
+    const fullCtx = { ...ctx, db } as TContext & { db: DatabaseContext };
+
+    const build = (definition: unknown, prefix: string): unknown => {
+      const caller: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(definition as object)) {
+        const path = prefix ? `${prefix}.${key}` : key;
+        caller[key] = isProcedure(value)
+          ? (input?: unknown) => this.execute(path, fullCtx, input)
+          : build(value, path);
+      }
+      return caller;
+    };
 
-    return executeProcedure(procedure, ctx, input);
+    return build(this.definition, '') as RouterCaller<TRouter>;
   }
 
   /**
@@ -0,0 +1,57 @@
+import { createDbContext, type DbContextConfig } from './db-context.js';
+import { ReactiveError } from './errors.js';
+import type { Router } from './router.js';
+import type { DatabaseContext, DehydratedState } from './types.js';
+
+/**
+ * Create helpers for prefetching subscriptions during server rendering.
+ * Procedures run through the router with the same middleware and
+ * validation as live requests.
+ *
+ * @example
+ * ```ts
+ * const helpers = createServerHelpers(appRouter, { userId }, harness);
+ * await helpers.prefetch('todos.list', { taskListId });
+ * return <ReactiveClientProvider dehydratedState={helpers.dehydrate()} />;
+ * ```
+ */
+export function createServerHelpers<TContext>(
+  router: Router<TContext, any>,
+  ctx: TContext,
+  options: { dbConfig?: DbContextConfig } = {},
+) {
+  const db = createDbContext(options.dbConfig ?? {});
+  const fullCtx = { ...ctx, db } as TContext & { db: DatabaseContext };
+  const prefetched = new Map<string, DehydratedState['subscriptions'][0]>();
+
+  /**
+   * Execute a query procedure and keep its result for dehydration
+   */
+  async function prefetch(path: string, input?: unknown): Promise<unknown> {
+    if (!router.isQuery(path)) {
+      throw new ReactiveError({
+        code: 'BAD_REQUEST',
+        message: `Only query procedures can be prefetched: ${path}`,
+      });
+    }
+
+    const data = await router.execute(path, fullCtx, input);
+    prefetched.set(JSON.stringify([path, input ?? null]), {
+      path,
+      input,
+      data,
+    });
+    return data;
+  }
+
+  /**
+   * Get the prefetched results as a JSON-serializable object
+   */
+  function dehydrate(): DehydratedState {
+    return {
+      subscriptions: JSON.parse(JSON.stringify([...prefetched.values()])),
+    };
+  }
+
+  return { prefetch, dehydrate };
+}
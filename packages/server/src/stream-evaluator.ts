@@ -0,0 +1,191 @@
+/**
+ * Incremental evaluation of stream changes against a stored subscription result.
+ * Lets the stream handler patch lastResult in place instead of re-querying.
+ */
+
+import type { FilterCondition, QueryMetadata } from '@dynamodb-reactive/core';
+
+import {
+  compareValues,
+  evaluateFilter,
+  evaluateFilters,
+  getFieldValue,
+  getRecordKey,
+  sortRecords,
+} from './filter-evaluator.js';
+import type { StreamRecordChange } from './types.js';
+
+/**
+ * Outcome of applying stream changes to a stored result.
+ * When requiresRequery is true the window can't be rebuilt from the
+ * changes alone and the caller must fall back to re-executing the query.
+ */
+export type IncrementalResult =
+  | { requiresRequery: false; result: Record<string, unknown>[] }
+  | { requiresRequery: true };
+
+/**
+ * Apply INSERT/MODIFY/REMOVE images to a subscription's last result.
+ *
+ * Records are matched against the stored filter conditions, upserted or
+ * removed by primary key, then re-sorted and truncated to the limit.
+ * Paged queries keep the window between their start and end keys instead,
+ * so items never shift onto neighbouring pages.
+ */
+export function applyRecordChanges(
+  lastResult: unknown[],
+  metadata: QueryMetadata,
+  changes: StreamRecordChange[],
+): IncrementalResult {
+  const { pkField, skField, sortField, sortOrder, limit, paged } = metadata;
+
+  // Subscriptions stored before key fields were tracked can't be keyed
+  if (!pkField) {
+    return { requiresRequery: true };
+  }
+
+  const previous = lastResult as Record<string, unknown>[];
+  const windowFull = !paged && limit !== undefined && previous.length >= limit;
+  const boundary = windowFull ? previous[previous.length - 1] : undefined;
+
+  const records = new Map<string, Record<string, unknown>>();
+  for (const record of previous) {
+    records.set(getRecordKey(record, pkField, skField), record);
+  }
+
+  let membershipChanged = false;
+
+  for (const change of changes) {
+    if (change.tableName !== metadata.tableName) continue;
+
+    const image = change.newImage ?? change.oldImage;
+    if (!image) continue;
+
+    const key = getRecordKey(image, pkField, skField);
+    const wasPresent = records.has(key);
+    const matches =
+      change.newImage !== null &&
+      evaluateFilters(metadata.filterConditions, change.newImage) &&
+      isWithinWindow(change.newImage, metadata);
+
+    if (matches) {
+      // Map.set keeps the original position for existing keys
+      records.set(key, change.newImage!);
+      if (!wasPresent) membershipChanged = true;
+    } else if (wasPresent) {
+      records.delete(key);
+      membershipChanged = true;
+    }
+  }
+
+  const sorted = sortRecords([...records.values()], sortField, sortOrder);
+
+  if (paged) {
+    // Without a sort field the page bounds can't be compared
+    if (!sortField && membershipChanged) {
+      return { requiresRequery: true };
+    }
+    return { requiresRequery: false, result: sorted };
+  }
+
+  // Without a sort field (e.g. a scan) the database order is unknown, so a
+  // limited window can't tell where new members go or which ones it drops
+  if (!sortField && limit !== undefined && membershipChanged) {
+    return { requiresRequery: true };
+  }
+
+  const result = limit !== undefined ? sorted.slice(0, limit) : sorted;
+
+  if (windowFull) {
+    // Items beyond the window were never loaded, so a shrunk window can't be refilled
+    if (result.length < limit!) {
+      return { requiresRequery: true };
+    }
+
+    if (!sortField) {
+      return { requiresRequery: false, result };
+    }
+
+    // Records outside the window all sort after the old boundary. If the new
+    // last record sorts past it, one of them may belong in the window instead.
+    const comparison = compareValues(
+      getFieldValue(result[result.length - 1], sortField),
+      getFieldValue(boundary!, sortField),
+    );
+    if ((sortOrder === 'desc' ? -comparison : comparison) > 0) {
+      return { requiresRequery: true };
+    }
+  }
+
+  return { requiresRequery: false, result };
+}
+
+/**
+ * Apply INSERT/MODIFY/REMOVE images to the item a point lookup returned.
+ * Images matching the lookup's key conditions replace the item in order,
+ * so the result is the latest image, or null once the item is deleted.
+ */
+export function applyItemChanges(
+  lastItem: unknown,
+  metadata: QueryMetadata,
+  changes: StreamRecordChange[],
+): unknown {
+  let item = lastItem;
+
+  for (const change of changes) {
+    if (change.tableName !== metadata.tableName) continue;
+
+    const image = change.newImage ?? change.oldImage;
+    if (image && evaluateFilters(metadata.filterConditions, image)) {
+      item = change.newImage;
+    }
+  }
+
+  return item;
+}
+
+/**
+ * Check whether a record falls within the query's key window
+ * (after the exclusive start key, up to and including a page's end key)
+ */
+function isWithinWindow(
+  record: Record<string, unknown>,
+  metadata: QueryMetadata,
+): boolean {
+  const { sortField, sortOrder, startKey, endKey } = metadata;
+  if (!sortField) return true;
+
+  const direction = sortOrder === 'desc' ? -1 : 1;
+  const value = getFieldValue(record, sortField);
+
+  if (
+    startKey &&
+    direction * compareValues(value, getFieldValue(startKey, sortField)) <= 0
+  ) {
+    return false;
+  }
+
+  if (
+    endKey &&
+    direction * compareValues(value, getFieldValue(endKey, sortField)) > 0
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a change satisfies any of a range watcher's conditions,
+ * before or after the change
+ */
+export function changeMatchesConditions(
+  change: StreamRecordChange,
+  conditions: FilterCondition[],
+): boolean {
+  return [change.oldImage, change.newImage].some(
+    (image) =>
+      image !== null &&
+      conditions.some((condition) => evaluateFilter(condition, image)),
+  );
+}
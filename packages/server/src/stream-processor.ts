@@ -0,0 +1,764 @@
+/**
+ * Stream pipeline shared by the Lambda stream handlers: finds the
+ * subscriptions a batch of stream records affects, applies the changes to
+ * their stored results and pushes the patches to their connections.
+ * Uses stored query metadata, and the router only to apply procedure
+ * output schemas and re-run procedures whose results it can't patch.
+ */
+
+import {
+  type ApiGatewayManagementApiClient,
+  GoneException,
+} from '@aws-sdk/client-apigatewaymanagementapi';
+import type { AttributeValue } from '@aws-sdk/client-dynamodb';
+import {
+  type DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import type {
+  ErrorMessage,
+  PatchMessage,
+  QueryEntry,
+  QueryMetadata,
+  ServerMessage,
+  SnapshotMessage,
+} from '@dynamodb-reactive/core';
+import type {
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
+} from 'aws-lambda';
+
+import {
+  type ConnectionTables,
+  teardownConnection,
+} from './connection-teardown.js';
+import {
+  createDbContext,
+  type DbContextConfig,
+  executeQueryOperation,
+} from './db-context.js';
+import {
+  collectWatchedFields,
+  createDependencyKey,
+  DependencyTracker,
+  extractAffectedKeys,
+  queryMetadataToOperation,
+} from './dependency-extractor.js';
+import {
+  createWatchedFieldsCache,
+  deleteDependencyEntries,
+  findSubscriptionsByKeys,
+  registerWatchedFields,
+  storeDependencyEntries,
+} from './dependency-index.js';
+import { isTransientError, ReactiveError, toReactiveError } from './errors.js';
+import {
+  generatePatches,
+  getKeyedArrays,
+  getValueAtPath,
+  hasChanges,
+  setValueAtPath,
+} from './patcher.js';
+import {
+  type ConnectionEncodeOptions,
+  createUpdateMessage,
+  DEFAULT_MAX_PAYLOAD_BYTES,
+  postMessages,
+} from './payload.js';
+import type { Router } from './router.js';
+import {
+  applyItemChanges,
+  applyRecordChanges,
+  changeMatchesConditions,
+} from './stream-evaluator.js';
+import type {
+  QueryDependency,
+  StreamRecordChange,
+  WatchedFields,
+} from './types.js';
+
+/**
+ * Attempts at a conditional update of a subscription's stored result
+ * before giving up
+ */
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * An update to send for a subscription, with the stored state it replaced
+ * (none for an error)
+ */
+interface SubscriptionUpdate {
+  message: PatchMessage | SnapshotMessage | ErrorMessage;
+  previous?: QueryEntry;
+}
+
+/**
+ * A re-run procedure's raw output, with the queries it ran this time and
+ * what they depend on
+ */
+interface RerunResult {
+  rawOutput: unknown;
+  queries: QueryMetadata[];
+  dependencies: QueryDependency[];
+}
+
+/**
+ * Configuration for the stream pipeline
+ */
+export interface StreamProcessorConfig {
+  docClient: DynamoDBDocumentClient;
+  tables: ConnectionTables;
+  getApiClient: () => ApiGatewayManagementApiClient;
+  /** Options to encode the messages sent to a connection with */
+  getEncodeOptions: (connectionId: string) => Promise<ConnectionEncodeOptions>;
+  /** @default DEFAULT_MAX_PAYLOAD_BYTES */
+  maxPayloadBytes?: number;
+  /**
+   * The application router, used to apply procedure output schemas to
+   * recomputed results and to re-run procedures whose results can't be
+   * patched in place. Those subscriptions are not updated without it.
+   */
+  router?: Router<any, any>;
+  /**
+   * Context for re-running a subscription's procedure, when some of its
+   * query results can't be located in the output to patch them in place
+   */
+  getContext?: (connectionId: string) => Promise<unknown>;
+  dbConfig?: DbContextConfig;
+}
+
+/**
+ * Create the handler for a batch of DynamoDB stream records
+ */
+export function createStreamProcessor(config: StreamProcessorConfig) {
+  const { docClient, getApiClient, getEncodeOptions } = config;
+  const maxPayloadBytes = config.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES;
+
+  // Fields watched per user table, cached across invocations
+  const getWatchedFields = createWatchedFieldsCache(
+    docClient,
+    config.tables.dependenciesTable,
+  );
+
+  /**
+   * Process a batch of stream records and push updates.
+   * Reports the records that couldn't be processed as batch item
+   * failures, so Lambda retries them.
+   */
+  async function processStreamEvent(
+    event: DynamoDBStreamEvent,
+  ): Promise<DynamoDBBatchResponse> {
+    // Unmarshall each change and the dependency keys it can affect
+    const recordChanges: { change: StreamRecordChange; keys: Set<string> }[] =
+      [];
+    // Sequence number of the record each change came from
+    const sequenceNumbers = new Map<StreamRecordChange, string | undefined>();
+    const failedRecords = new Set<string>();
+
+    // Only fields some subscription watches are probed. Each table's are
+    // looked up once per batch.
+    const watchedByTable = new Map<string, WatchedFields>();
+    const tableNames = new Set(
+      event.Records.map(extractTableName).filter((name) => name !== null),
+    );
+    await Promise.all(
+      [...tableNames].map(async (tableName) => {
+        try {
+          watchedByTable.set(tableName, await getWatchedFields(tableName));
+        } catch (error) {
+          console.error('Error loading watched fields:', error);
+        }
+      }),
+    );
+
+    for (const record of event.Records) {
+      if (!record.dynamodb) continue;
+
+      const tableName = extractTableName(record);
+      if (!tableName) continue;
+
+      // Without the watched fields the keys can't be found (prefixes can't
+      // be expanded), so the record is retried
+      const watched = watchedByTable.get(tableName);
+      if (!watched) {
+        if (record.dynamodb.SequenceNumber) {
+          failedRecords.add(record.dynamodb.SequenceNumber);
+        }
+        continue;
+      }
+
+      // Get the new and old images
+      const newImage = record.dynamodb.NewImage
+        ? unmarshall(record.dynamodb.NewImage as Record<string, AttributeValue>)
+        : null;
+      const oldImage = record.dynamodb.OldImage
+        ? unmarshall(record.dynamodb.OldImage as Record<string, AttributeValue>)
+        : null;
+
+      const keys = new Set<string>();
+      for (const image of [newImage, oldImage]) {
+        if (!image) continue;
+        for (const key of extractAffectedKeys(tableName, image, watched)) {
+          keys.add(key);
+        }
+      }
+
+      const change: StreamRecordChange = { tableName, oldImage, newImage };
+      recordChanges.push({ change, keys });
+      sequenceNumbers.set(change, record.dynamodb.SequenceNumber);
+    }
+
+    // Probe each distinct key once for the whole batch
+    const subscriptionsByKey = await findSubscriptionsByKeys(
+      docClient,
+      config.tables.dependenciesTable,
+      recordChanges.flatMap(({ keys }) => [...keys]),
+    );
+
+    // connectionId -> subscriptionId -> changes that affect it
+    const affectedSubscriptions = new Map<
+      string,
+      Map<string, StreamRecordChange[]>
+    >();
+
+    for (const { change, keys } of recordChanges) {
+      const recordSubscriptions = new Set<string>();
+      for (const key of keys) {
+        for (const sub of subscriptionsByKey.get(key) ?? []) {
+          const connId = sub.connectionId;
+          const subId = sub.subscriptionId;
+
+          // Range watchers only match changes that satisfy their conditions
+          if (
+            sub.conditions &&
+            !changeMatchesConditions(change, sub.conditions)
+          ) {
+            continue;
+          }
+
+          // A record can match several keys of the same subscription
+          if (recordSubscriptions.has(`${connId}#${subId}`)) continue;
+          recordSubscriptions.add(`${connId}#${subId}`);
+
+          if (!affectedSubscriptions.has(connId)) {
+            affectedSubscriptions.set(connId, new Map());
+          }
+          const connSubs = affectedSubscriptions.get(connId)!;
+
+          // Keep every change in stream order so they can be applied in sequence
+          if (!connSubs.has(subId)) {
+            connSubs.set(subId, []);
+          }
+          connSubs.get(subId)!.push(change);
+        }
+      }
+    }
+
+    // Records are retried if a lookup of their keys failed...
+    const failedChanges = recordChanges
+      .filter(({ keys }) =>
+        [...keys].some((key) => !subscriptionsByKey.has(key)),
+      )
+      .map(({ change }) => change);
+
+    // ...or a subscription they affect couldn't be updated. Connections
+    // are updated concurrently, each in order.
+    const results = await Promise.all(
+      [...affectedSubscriptions].map(([connectionId, subscriptions]) =>
+        processConnection(connectionId, subscriptions),
+      ),
+    );
+    failedChanges.push(...results.flat());
+
+    for (const change of failedChanges) {
+      const sequenceNumber = sequenceNumbers.get(change);
+      if (sequenceNumber) failedRecords.add(sequenceNumber);
+    }
+
+    return {
+      batchItemFailures: [...failedRecords].map((itemIdentifier) => ({
+        itemIdentifier,
+      })),
+    };
+  }
+
+  /**
+   * Extract table name from a stream record
+   */
+  function extractTableName(record: DynamoDBRecord): string | null {
+    const arn = record.eventSourceARN;
+    if (!arn) return null;
+    const match = arn.match(/table\/([^/]+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Update a connection's subscriptions affected by a batch, in the order
+   * of the first change to each, and send their updates in that order.
+   * Each subscription is recomputed once from all of its changes and
+   * diffed once, so it receives one message per batch; merging patches
+   * per path (optimizePatches) would reorder array index operations.
+   * Updates that couldn't be sent have their stored results reverted, so a
+   * retry sends them again. A subscription that can't be updated is sent
+   * an error instead, unless the failure is transient.
+   * Returns the changes of subscriptions that couldn't be updated (for a
+   * transient reason) or sent.
+   */
+  async function processConnection(
+    connectionId: string,
+    subscriptions: Map<string, StreamRecordChange[]>,
+  ): Promise<StreamRecordChange[]> {
+    const updates: {
+      update: SubscriptionUpdate;
+      changes: StreamRecordChange[];
+    }[] = [];
+    const failedChanges: StreamRecordChange[] = [];
+    for (const [subscriptionId, changes] of subscriptions) {
+      try {
+        const update = await processSubscription(
+          connectionId,
+          subscriptionId,
+          changes,
+        );
+        if (update) updates.push({ update, changes });
+      } catch (error) {
+        // Only failures that may pass are retried. Others would fail the
+        // same way on every retry and block the shard, so the client is
+        // told instead.
+        if (isTransientError(error)) {
+          failedChanges.push(...changes);
+          continue;
+        }
+        const { code, message, issues } = toReactiveError(error);
+        updates.push({
+          update: {
+            message: { type: 'error', code, message, issues, subscriptionId },
+          },
+          changes,
+        });
+      }
+    }
+
+    if (updates.length === 0) return failedChanges;
+
+    // Updates the client already has are kept, or it would be ahead of the
+    // stored version and drop their retries as stale
+    const delivered = await sendUpdates(
+      connectionId,
+      updates.map(({ update }) => update.message),
+    );
+    for (const { update, changes } of updates.slice(delivered)) {
+      if (update.previous) await revertQueryState(update.previous);
+      failedChanges.push(...changes);
+    }
+    return failedChanges;
+  }
+
+  /**
+   * Process a single subscription by applying the stream changes to its
+   * stored result and diffing. Only re-queries when the result window
+   * can't be rebuilt locally (e.g. a removal from a full, limited window).
+   * Re-runs the procedure instead when the result of an affected query
+   * couldn't be located in its output, replacing the stored queries and
+   * dependency entries with those of the re-run.
+   * The stored result is replaced only if its version is unchanged; when
+   * another invocation got there first, the changes are reapplied to its
+   * result. Returns the update to send, if the result changed, and throws
+   * if the subscription couldn't be read, re-queried or stored.
+   */
+  async function processSubscription(
+    connectionId: string,
+    subscriptionId: string,
+    changes: StreamRecordChange[],
+  ): Promise<SubscriptionUpdate | null> {
+    try {
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        // Get the subscription state
+        const response = await docClient.send(
+          new GetCommand({
+            TableName: config.tables.queriesTable,
+            Key: { pk: connectionId, sk: subscriptionId },
+          }),
+        );
+
+        const queryState = response.Item as QueryEntry | undefined;
+        if (!queryState) {
+          console.warn(
+            `Subscription not found: ${connectionId}/${subscriptionId}`,
+          );
+          return null;
+        }
+
+        // Results that can't be located in the output (e.g. items the
+        // procedure mapped into new objects) are recomputed by re-running it
+        const rerun = queryState.queries.some(
+          (q) =>
+            q.resultPath === undefined &&
+            changes.some((c) => c.tableName === q.tableName),
+        );
+
+        // Re-running the procedure and applying its output schema need the router
+        const router = config.router;
+        if (
+          (rerun || queryState.outputSchema) &&
+          !(router && queryState.path)
+        ) {
+          console.error(
+            `Subscription ${connectionId}/${subscriptionId} needs the router to be recomputed, but none is available; skipping update`,
+          );
+          return null;
+        }
+
+        let rawResult: unknown;
+        let refreshed: RerunResult | undefined;
+        if (rerun) {
+          refreshed = await rerunProcedure(router!, queryState);
+          rawResult = refreshed.rawOutput;
+        } else {
+          rawResult = await applyChanges(queryState, changes);
+        }
+
+        // Strip the recomputed output so patches never contain fields
+        // outside the declared shape. The raw output is kept to apply
+        // later changes to.
+        const newResult = queryState.outputSchema
+          ? router!.parseOutput(queryState.path!, rawResult)
+          : rawResult;
+
+        // Check if there are changes. The raw output may change where the
+        // sent one doesn't, and a re-run may also have queried other keys
+        // (e.g. the items of a different list); both are stored, with an
+        // empty patch for the client.
+        if (
+          !hasChanges(queryState.lastResult, newResult) &&
+          !(
+            queryState.outputSchema &&
+            hasChanges(queryState.rawResult, rawResult)
+          ) &&
+          !(refreshed && hasChanges(queryState.queries, refreshed.queries))
+        ) {
+          return null;
+        }
+
+        // Generate patches
+        const patches = generatePatches(
+          queryState.lastResult,
+          newResult,
+          getKeyedArrays(queryState.queries),
+        );
+
+        // Index what the re-run depends on before storing its result, so
+        // no change to it is missed once the result is stored
+        const dependencyKeys = refreshed && [
+          ...new Set(refreshed.dependencies.map(createDependencyKey)),
+        ];
+        if (refreshed) {
+          await indexDependencies(queryState, refreshed.dependencies);
+        }
+
+        // Update the stored state, unless another invocation updated it
+        const stored = await updateQueryState(queryState, {
+          lastResult: newResult,
+          ...(queryState.outputSchema && { rawResult }),
+          ...(refreshed && {
+            queries: refreshed.queries,
+            dependencies: dependencyKeys,
+          }),
+        });
+        if (!stored) continue;
+
+        if (dependencyKeys) {
+          await removeStaleDependencies(
+            queryState,
+            queryState.dependencies.filter(
+              (key) => !dependencyKeys.includes(key),
+            ),
+          );
+        }
+
+        // The patches, or the new result if the patches are too large
+        return {
+          message: createUpdateMessage(
+            subscriptionId,
+            patches,
+            newResult,
+            {
+              fromVersion: queryState.version,
+              toVersion: queryState.version + 1,
+            },
+            maxPayloadBytes,
+          ),
+          previous: queryState,
+        };
+      }
+
+      throw new ReactiveError({
+        code: 'CONFLICT',
+        message: `Subscription ${connectionId}/${subscriptionId} kept changing while it was updated; giving up after ${MAX_UPDATE_ATTEMPTS} attempts`,
+      });
+    } catch (error) {
+      console.error(
+        `Error processing subscription ${connectionId}/${subscriptionId}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Apply stream changes to each affected query of a subscription and
+   * place its items back into the raw output
+   */
+  async function applyChanges(
+    queryState: QueryEntry,
+    changes: StreamRecordChange[],
+  ): Promise<unknown> {
+    let newResult = queryState.outputSchema
+      ? queryState.rawResult
+      : queryState.lastResult;
+    for (const queryMetadata of queryState.queries) {
+      if (!changes.some((c) => c.tableName === queryMetadata.tableName)) {
+        continue;
+      }
+
+      const resultPath = queryMetadata.resultPath ?? '';
+
+      // Point lookups take the latest image of their item
+      if (queryMetadata.type === 'get') {
+        const item = applyItemChanges(
+          getValueAtPath(newResult, resultPath),
+          queryMetadata,
+          changes,
+        );
+        newResult = setValueAtPath(newResult, resultPath, item);
+        continue;
+      }
+
+      const lastItems = getValueAtPath(newResult, resultPath);
+      if (!Array.isArray(lastItems)) {
+        console.warn(
+          `Query result not found at '${resultPath}' in output of ${queryState.connectionId}/${queryState.subscriptionId}`,
+        );
+        continue;
+      }
+
+      // Apply the changes directly, falling back to a re-query
+      const incremental = applyRecordChanges(lastItems, queryMetadata, changes);
+      const newItems = incremental.requiresRequery
+        ? await executeQueryFromMetadata(queryMetadata)
+        : incremental.result;
+      newResult = setValueAtPath(newResult, resultPath, newItems);
+    }
+    return newResult;
+  }
+
+  /**
+   * Re-run a subscription's procedure for its new output, tracking the
+   * queries it runs as on subscribe
+   */
+  async function rerunProcedure(
+    router: Router<any, any>,
+    queryState: QueryEntry,
+  ): Promise<RerunResult> {
+    const ctx = config.getContext
+      ? await config.getContext(queryState.connectionId)
+      : {};
+    const dependencyTracker = new DependencyTracker();
+    const db = createDbContext(config.dbConfig ?? {}, dependencyTracker);
+
+    // Query results are located by reference, so they must be found in the
+    // raw output before the output schema copies it
+    const rawOutput = await router.execute(
+      queryState.path!,
+      { ...(ctx as object), db },
+      queryState.input,
+      { validateOutput: false },
+    );
+    return {
+      rawOutput,
+      queries: dependencyTracker.getQueryMetadata(rawOutput),
+      dependencies: dependencyTracker.getDependencies(),
+    };
+  }
+
+  /**
+   * Register the fields a re-run subscription watches and store its
+   * dependency entries, as on subscribe
+   */
+  async function indexDependencies(
+    queryState: QueryEntry,
+    dependencies: QueryDependency[],
+  ): Promise<void> {
+    const { dependenciesTable } = config.tables;
+    for (const [tableName, watched] of collectWatchedFields(dependencies)) {
+      await registerWatchedFields(
+        docClient,
+        dependenciesTable,
+        tableName,
+        watched,
+        queryState.ttl,
+      );
+    }
+    await storeDependencyEntries(
+      docClient,
+      dependenciesTable,
+      queryState,
+      dependencies,
+    );
+  }
+
+  /**
+   * Delete a subscription's dependency entries for keys a re-run no longer
+   * depends on. The update is sent even if this fails; the entries only
+   * cause needless re-evaluation until they expire.
+   */
+  async function removeStaleDependencies(
+    queryState: QueryEntry,
+    keys: string[],
+  ): Promise<void> {
+    try {
+      await deleteDependencyEntries(
+        docClient,
+        config.tables.dependenciesTable,
+        queryState,
+        keys,
+      );
+    } catch (error) {
+      console.error(
+        `Error removing stale dependencies of ${queryState.connectionId}/${queryState.subscriptionId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Store a recomputed result (with its raw output if it has an output
+   * schema, and after a re-run its queries and dependency keys) as the
+   * next version of a subscription.
+   * Returns false if the stored version changed since it was read.
+   */
+  async function updateQueryState(
+    queryState: QueryEntry,
+    update: Pick<QueryEntry, 'lastResult'> &
+      Partial<Pick<QueryEntry, 'rawResult' | 'queries' | 'dependencies'>>,
+  ): Promise<boolean> {
+    try {
+      await docClient.send(
+        new PutCommand({
+          TableName: config.tables.queriesTable,
+          Item: {
+            ...queryState,
+            ...update,
+            version: queryState.version + 1,
+            updatedAt: Date.now(),
+          },
+          ConditionExpression: '#version = :version',
+          ExpressionAttributeNames: { '#version': 'version' },
+          ExpressionAttributeValues: { ':version': queryState.version },
+        }),
+      );
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.name === 'ConditionalCheckFailedException'
+      ) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a subscription's state from before an update that couldn't be
+   * sent, unless it has been updated again since. Then the client learns
+   * of the missed update from the version gap in the next one.
+   */
+  async function revertQueryState(previous: QueryEntry): Promise<void> {
+    try {
+      await docClient.send(
+        new PutCommand({
+          TableName: config.tables.queriesTable,
+          Item: previous,
+          ConditionExpression: '#version = :version',
+          ExpressionAttributeNames: { '#version': 'version' },
+          ExpressionAttributeValues: { ':version': previous.version + 1 },
+        }),
+      );
+    } catch (error) {
+      if (
+        !(error instanceof Error) ||
+        error.name !== 'ConditionalCheckFailedException'
+      ) {
+        console.error(
+          `Error reverting subscription ${previous.connectionId}/${previous.subscriptionId}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Re-execute a query using stored QueryMetadata (without router code).
+   * Runs from the same start key so a paged window stays in place.
+   */
+  async function executeQueryFromMetadata(
+    metadata: QueryMetadata,
+  ): Promise<unknown[]> {
+    const { items } = await executeQueryOperation(
+      docClient,
+      queryMetadataToOperation(metadata),
+      {
+        limit: metadata.limit,
+        startKey: metadata.startKey,
+        ascending: metadata.sortOrder !== 'desc',
+      },
+    );
+    return items;
+  }
+
+  /**
+   * Send a connection's updates to the client via WebSocket, in order,
+   * in one frame if it negotiated batching. A connection that has gone
+   * away is cleaned up. Returns how many of the updates were delivered
+   * (all of them if the connection is gone).
+   */
+  async function sendUpdates(
+    connectionId: string,
+    updates: ServerMessage[],
+  ): Promise<number> {
+    let delivered = 0;
+    try {
+      const options = await getEncodeOptions(connectionId);
+      await postMessages(getApiClient(), connectionId, updates, options, () => {
+        delivered++;
+      });
+    } catch (error) {
+      if (error instanceof GoneException) {
+        await cleanupConnection(connectionId);
+      } else {
+        console.error(`Error sending updates to ${connectionId}:`, error);
+        return delivered;
+      }
+    }
+    return updates.length;
+  }
+
+  /**
+   * Clean up a disconnected connection
+   */
+  async function cleanupConnection(connectionId: string): Promise<void> {
+    console.log('Cleaning up disconnected connection:', connectionId);
+
+    try {
+      await teardownConnection(docClient, config.tables, connectionId);
+    } catch (error) {
+      console.error('Error cleaning up connection:', error);
+    }
+  }
+
+  return processStreamEvent;
+}
@@ -1,13 +1,24 @@
 import type {
   AnyDynamoTable,
+  DehydratedState,
   DynamoTable,
   FieldRef,
   FilterCondition,
+  QueryCursor,
+  QueryPage,
+  WatchedFields,
 } from '@dynamodb-reactive/core';
 import type { z } from 'zod';
 
 // Re-export types from core for convenience
-export type { AnyDynamoTable, FilterCondition };
+export type {
+  AnyDynamoTable,
+  DehydratedState,
+  FilterCondition,
+  QueryCursor,
+  QueryPage,
+  WatchedFields,
+};
 
 /**
  * Context type for procedures
@@ -86,10 +97,27 @@ export interface QueryBuilder<TTable extends AnyDynamoTable> {
   ): QueryBuilder<TTable>;
   useIndex(indexName: keyof TableIndexes<TTable>): QueryBuilder<TTable>;
   take(limit: number): QueryBuilder<TTable>;
-  startFrom(key: TableKeyInput<TTable>): QueryBuilder<TTable>;
+  /**
+   * Continue after a key or a cursor from a previous page (exclusive).
+   * Nullish values start from the beginning.
+   */
+  startFrom(
+    position: TableKeyInput<TTable> | QueryCursor | null | undefined,
+  ): QueryBuilder<TTable>;
   sortAscending(): QueryBuilder<TTable>;
   sortDescending(): QueryBuilder<TTable>;
+  /**
+   * Opt in to scanning when the filters don't pin a partition key.
+   * Without this, such queries are rejected instead of reading the whole table.
+   */
+  allowScan(): QueryBuilder<TTable>;
   execute(): Promise<TableItem<TTable>[]>;
+  /**
+   * Execute and return a page of results with a cursor for the next page.
+   * When subscribed, the page keeps a stable window: live inserts within
+   * its range are added instead of pushing items onto the next page.
+   */
+  executePage(): Promise<QueryPage<TableItem<TTable>>>;
 }
 
 /**
@@ -163,6 +191,33 @@ type TableIndexes<T extends AnyDynamoTable> =
  */
 export type ProcedureType = 'query' | 'mutation';
 
+/**
+ * Result of calling the rest of a middleware chain. The context override
+ * type is carried so procedures can infer the narrowed context.
+ */
+export interface MiddlewareResult<TContextOverride> {
+  /** Output of the procedure */
+  readonly data: unknown;
+  /** Type-level marker for the context passed to next() */
+  readonly _ctxOverride?: TContextOverride;
+}
+
+/**
+ * Procedure middleware. Calls next() to continue the chain, optionally
+ * passing context to merge into the context of later middleware and the
+ * resolver.
+ */
+export type Middleware<TContext, TContextOverride = object> = (opts: {
+  ctx: TContext & { db: DatabaseContext };
+  /** Raw input (validated after the middleware chain) */
+  input: unknown;
+  path: string;
+  type: ProcedureType;
+  next: <TNextOverride extends object = object>(opts?: {
+    ctx: TNextOverride;
+  }) => Promise<MiddlewareResult<TNextOverride>>;
+}) => Promise<MiddlewareResult<TContextOverride>>;
+
 /**
  * Procedure definition
  */
@@ -173,6 +228,11 @@ export interface ProcedureDefinition<
 > {
   type: ProcedureType;
   inputSchema?: TInput;
+  /** Validates and strips the resolver's output before it is sent or stored */
+  outputSchema?: z.ZodTypeAny;
+  /** Middleware run in order before the resolver */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  middlewares?: Middleware<any, any>[];
   resolver: (opts: {
     ctx: TContext & { db: DatabaseContext };
     input: z.infer<TInput>;
@@ -205,12 +265,16 @@ export interface QueryDependency {
   fieldName: string;
   fieldValue: string;
   indexName?: string;
+  /** Condition a range watcher evaluates against changed items */
+  condition?: FilterCondition;
 }
 
 /**
  * Tracked query operation (for dependency extraction and stream processing)
  */
 export interface TrackedQueryOperation {
+  /** Operation kind; 'get' is a point lookup by primary key (default 'query') */
+  type?: 'query' | 'get';
   tableName: string;
   filters: FilterCondition[];
   indexName?: string;
@@ -218,10 +282,31 @@ export interface TrackedQueryOperation {
   pkField: string;
   /** Sort key field name for the table (if any) */
   skField?: string;
-  /** Sort field for ordering results */
+  /** Partition key field name of the index (when indexName is set) */
+  indexPkField?: string;
+  /** Sort key field name of the index (if any) */
+  indexSkField?: string;
+  /** Whether the query may fall back to a scan */
+  allowScan?: boolean;
+  /** Sort key the results are ordered by; unset for scans */
   sortField?: string;
   /** Sort direction */
   sortOrder?: 'asc' | 'desc';
   /** Maximum number of results */
   limit?: number;
+  /** Exclusive start key */
+  startKey?: Record<string, unknown>;
+  /** Whether the query was executed as a page */
+  paged?: boolean;
+  /** Last key of the page, if more results may exist */
+  endKey?: Record<string, unknown>;
+}
+
+/**
+ * A change captured from a DynamoDB stream record (images unmarshalled)
+ */
+export interface StreamRecordChange {
+  tableName: string;
+  oldImage: Record<string, unknown> | null;
+  newImage: Record<string, unknown> | null;
 }